@@ -1,5 +1,9 @@
 import React from 'react';
 import AppNavigator from './navigation/AppNavigator';
+import { initializeStateStore } from './core';
+
+// Rooms are shared across devices through Supabase
+initializeStateStore('supabase');
 
 export default function App() {
   return <AppNavigator />;
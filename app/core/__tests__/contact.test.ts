@@ -0,0 +1,103 @@
+/**
+ * Social Arena - Contact Model Tests
+ *
+ * Replays scripted sample sequences through replayContact().
+ * Run with `npm test`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContactParams, ContactSample, replayContact } from '../contact';
+
+const PARAMS: ContactParams = {
+  enter_distance_meters: 2.5,
+  exit_distance_meters: 4,
+  confidence_threshold: 0.8,
+  hold_ms: 1500,
+  dropout_ms: 2000,
+  min_samples: 3,
+};
+
+/**
+ * One exact sample per [distance, time] pair
+ */
+function samples(...points: Array<[number, number]>): ContactSample[] {
+  return points.map(([distance, at]) => ({
+    distance_meters: distance,
+    sigma_meters: 0,
+    sampled_at: at,
+  }));
+}
+
+function held(points: Array<[number, number]>, params: ContactParams = PARAMS): boolean[] {
+  return replayContact(samples(...points), params).map(step => step.held);
+}
+
+// ============================================================================
+// HYSTERESIS
+// ============================================================================
+
+test('a hold starts only within the enter distance', () => {
+  const steps = replayContact(samples([3, 0], [3.5, 1000], [2, 2000]), PARAMS);
+  assert.equal(steps[0].state.hold_started_at, null);
+  assert.equal(steps[1].state.hold_started_at, null);
+  assert.equal(steps[2].state.hold_started_at, 2000);
+});
+
+test('jitter between the enter and exit distance keeps the hold', () => {
+  assert.deepEqual(held([[2, 0], [3.2, 1000], [2.1, 2000]]), [false, false, true]);
+});
+
+test('leaving past the exit distance starts a dropout', () => {
+  const steps = replayContact(samples([2, 0], [4.5, 500]), PARAMS);
+  assert.equal(steps[1].state.hold_started_at, 0);
+  assert.equal(steps[1].state.dropout_started_at, 500);
+});
+
+// ============================================================================
+// DROPOUTS
+// ============================================================================
+
+test('a short dropout is tolerated but cannot complete the hold', () => {
+  assert.deepEqual(
+    held([[2, 0], [1, 500], [6, 1000], [6, 1500], [2, 2000]]),
+    [false, false, false, false, true]
+  );
+});
+
+test('a dropout longer than the window resets the hold', () => {
+  const steps = replayContact(samples([2, 0], [2, 500], [6, 1500], [6, 2300], [2, 2600]), PARAMS);
+  assert.equal(steps[4].state.hold_started_at, 2600);
+  assert.equal(steps[4].state.in_range_samples, 1);
+  assert.equal(steps[4].held, false);
+});
+
+test('a gap without samples counts as a dropout', () => {
+  const short = replayContact(samples([2, 0], [2, 500], [2, 2400]), PARAMS);
+  assert.equal(short[2].state.hold_started_at, 0);
+  assert.equal(short[2].held, true);
+
+  const long = replayContact(samples([2, 0], [2, 500], [2, 2600]), PARAMS);
+  assert.equal(long[2].state.hold_started_at, 2600);
+  assert.equal(long[2].held, false);
+});
+
+// ============================================================================
+// MINIMUM SAMPLES
+// ============================================================================
+
+test('a hold needs at least three in-range samples', () => {
+  assert.deepEqual(held([[2, 0], [2, 1600]]), [false, false]);
+  assert.deepEqual(held([[2, 0], [2, 1600], [2, 1700]]), [false, false, true]);
+});
+
+test('a hold needs its samples to span the hold time', () => {
+  assert.deepEqual(held([[2, 0], [2, 100], [2, 200], [2, 1500]]), [false, false, false, true]);
+});
+
+test('repeated or older samples add nothing', () => {
+  const steps = replayContact(samples([2, 0], [2, 1000], [2, 1000], [2, 900]), PARAMS);
+  assert.equal(steps[3].state.in_range_samples, 2);
+  assert.equal(steps[3].state.last_sample_at, 1000);
+  assert.deepEqual(steps.map(step => step.held), [false, false, false, false]);
+});
@@ -0,0 +1,80 @@
+/**
+ * Social Arena - Proximity Fusion Tests
+ *
+ * Covers GPS uncertainty, capture confidence and GPS/BLE weighting.
+ * Run with `npm test`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BleProximityInput,
+  DEFAULT_GPS_SIGMA_METERS,
+  fuseProximity,
+  getCaptureConfidence,
+  getGpsInput,
+} from '../fusion';
+
+function ble(distanceMeters: number, sigmaMeters: number): BleProximityInput {
+  return {
+    distance_meters: distanceMeters,
+    sigma_meters: sigmaMeters,
+    rssi: -60,
+    sample_count: 5,
+    sampled_at: 0,
+    age_ms: 0,
+  };
+}
+
+// ============================================================================
+// GPS INPUT
+// ============================================================================
+
+test('reported accuracies combine in quadrature', () => {
+  assert.equal(getGpsInput(10, 0, 3, 4).sigma_meters, 5);
+});
+
+test('a fix without a usable accuracy falls back to the default sigma', () => {
+  const expected = Math.hypot(DEFAULT_GPS_SIGMA_METERS, DEFAULT_GPS_SIGMA_METERS);
+  assert.equal(getGpsInput(1, 0).sigma_meters, expected);
+  assert.equal(getGpsInput(1, 0, 0, -5).sigma_meters, expected);
+  assert.equal(getGpsInput(1, 0, 3).sigma_meters, Math.hypot(3, DEFAULT_GPS_SIGMA_METERS));
+});
+
+test('a fix without accuracy is not treated as a certain capture', () => {
+  const fused = fuseProximity('hunter', 'prey', getGpsInput(1, 0), undefined, 2)!;
+  assert.equal(fused.source, 'gps');
+  assert.ok(fused.sigma_meters > 0);
+  assert.ok(fused.capture_confidence < 0.6);
+});
+
+// ============================================================================
+// CAPTURE CONFIDENCE
+// ============================================================================
+
+test('confidence is one half exactly at the capture distance', () => {
+  assert.ok(Math.abs(getCaptureConfidence(2, 1, 2) - 0.5) < 1e-6);
+});
+
+test('confidence grows as the distance shrinks', () => {
+  const far = getCaptureConfidence(3, 1, 2);
+  const near = getCaptureConfidence(1, 1, 2);
+  assert.ok(far < 0.5);
+  assert.ok(near > 0.5);
+});
+
+// ============================================================================
+// FUSION
+// ============================================================================
+
+test('no inputs gives no estimate', () => {
+  assert.equal(fuseProximity('hunter', 'prey', undefined, undefined, 2), undefined);
+});
+
+test('a tight BLE reading outweighs a loose GPS fix', () => {
+  const fused = fuseProximity('hunter', 'prey', getGpsInput(15, 0, 10, 10), ble(1.5, 0.5), 2)!;
+  assert.equal(fused.source, 'fused');
+  assert.ok(Math.abs(fused.distance_meters - 1.5) < 0.1);
+  assert.ok(fused.sigma_meters < 0.5);
+  assert.ok(fused.capture_confidence > 0.8);
+});
@@ -0,0 +1,61 @@
+/**
+ * Social Arena - Password Hashing Tests
+ *
+ * Covers the PBKDF2 format and the legacy "hashed:" placeholders.
+ * Run with `npm test`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  isPlaceholderHash,
+  hashPlaceholder,
+  PASSWORD_HASH_ITERATIONS,
+} from '../passwords';
+
+// ============================================================================
+// HASHES
+// ============================================================================
+
+test('a hash verifies only its own password', async () => {
+  const stored = await hashPassword('correct horse');
+  assert.match(stored, new RegExp(`^pbkdf2_sha256\\$${PASSWORD_HASH_ITERATIONS}\\$`));
+  assert.equal(await verifyPassword('correct horse', stored), true);
+  assert.equal(await verifyPassword('correct horsf', stored), false);
+  assert.equal(needsRehash(stored), false);
+});
+
+test('hashes of the same password use different salts', async () => {
+  assert.notEqual(await hashPassword('same'), await hashPassword('same'));
+});
+
+test('outdated iterations and malformed hashes need a rehash', async () => {
+  const weak = await hashPassword('secret', 1000);
+  assert.equal(await verifyPassword('secret', weak), true);
+  assert.equal(needsRehash(weak), true);
+  assert.equal(await verifyPassword('secret', 'pbkdf2_sha256$x$y'), false);
+  assert.equal(needsRehash('pbkdf2_sha256$x$y'), true);
+});
+
+// ============================================================================
+// LEGACY PLACEHOLDERS
+// ============================================================================
+
+test('a legacy placeholder verifies its password and needs a rehash', async () => {
+  assert.equal(isPlaceholderHash('hashed:hunter2'), true);
+  assert.equal(await verifyPassword('hunter2', 'hashed:hunter2'), true);
+  assert.equal(await verifyPassword('hunter3', 'hashed:hunter2'), false);
+  assert.equal(await verifyPassword('', 'hashed:hunter2'), false);
+  assert.equal(needsRehash('hashed:hunter2'), true);
+});
+
+test('hashPlaceholder hashes the embedded password', async () => {
+  const upgraded = await hashPlaceholder('hashed:hunter2');
+  assert.equal(isPlaceholderHash(upgraded), false);
+  assert.equal(needsRehash(upgraded), false);
+  assert.equal(await verifyPassword('hunter2', upgraded), true);
+  assert.equal(await verifyPassword('hashed:hunter2', upgraded), false);
+});
@@ -0,0 +1,83 @@
+/**
+ * Social Arena - Session Tests
+ *
+ * Refresh token rotation and reuse detection against the in-memory store.
+ * Run with `npm test`.
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ArenaError, ErrorCodes, Result } from '../types';
+import {
+  clearCurrentSession,
+  createSession,
+  refreshSession,
+  revokeAllSessions,
+  verifyToken,
+} from '../sessions';
+
+after(async () => {
+  // Stops the background refresh timer
+  await clearCurrentSession();
+});
+
+function errorCode(result: Result<unknown, ArenaError>): string | undefined {
+  return 'error' in result ? result.error.code : undefined;
+}
+
+async function startSession(userId: string) {
+  const result = await createSession(userId);
+  assert.ok(result.success);
+  return result.data;
+}
+
+// ============================================================================
+// ROTATION
+// ============================================================================
+
+test('a refresh rotates the refresh token', async () => {
+  const first = await startSession('user-rotate');
+  const second = await refreshSession(first.refresh_token);
+  assert.ok(second.success);
+  assert.equal(second.data.session_id, first.session_id);
+  assert.notEqual(second.data.refresh_token, first.refresh_token);
+  assert.ok(verifyToken(second.data.access_token, 'access').success);
+
+  const third = await refreshSession(second.data.refresh_token);
+  assert.ok(third.success);
+});
+
+test('an access token cannot be used to refresh', async () => {
+  const tokens = await startSession('user-access');
+  const result = await refreshSession(tokens.access_token);
+  assert.equal(errorCode(result), ErrorCodes.INVALID_TOKEN);
+});
+
+// ============================================================================
+// REUSE DETECTION
+// ============================================================================
+
+test('reusing a rotated refresh token revokes the session', async () => {
+  const stolen = await startSession('user-reuse');
+  const rotated = await refreshSession(stolen.refresh_token);
+  assert.ok(rotated.success);
+
+  const replay = await refreshSession(stolen.refresh_token);
+  assert.equal(errorCode(replay), ErrorCodes.SESSION_REVOKED);
+
+  // The legitimate holder is locked out too
+  const next = await refreshSession(rotated.data.refresh_token);
+  assert.equal(errorCode(next), ErrorCodes.SESSION_REVOKED);
+});
+
+test('logging out everywhere stops every session from refreshing', async () => {
+  const phone = await startSession('user-everywhere');
+  const laptop = await startSession('user-everywhere');
+
+  const revoked = await revokeAllSessions(laptop.refresh_token);
+  assert.ok(revoked.success);
+  assert.equal(revoked.data, 2);
+
+  const result = await refreshSession(phone.refresh_token);
+  assert.equal(errorCode(result), ErrorCodes.SESSION_REVOKED);
+});
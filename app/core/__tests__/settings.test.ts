@@ -0,0 +1,60 @@
+/**
+ * Social Arena - Arena Settings Tests
+ *
+ * Validates settings against the built-in mode schemas.
+ * Run with `npm test`.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCodes } from '../types';
+import { getDefaultSettings, validateArenaSettings } from '../modes/registry';
+import '../modes';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+test('missing settings are filled from the mode defaults', () => {
+  const result = validateArenaSettings('predators', { capture_hold_ms: 3000 });
+  assert.ok(result.success);
+  assert.deepEqual(result.data, { ...getDefaultSettings('predators'), capture_hold_ms: 3000 });
+});
+
+test('an unknown mode is rejected', () => {
+  const result = validateArenaSettings('tag' as never);
+  assert.equal(result.success, false);
+  assert.equal(!result.success && result.error.code, ErrorCodes.INVALID_INPUT);
+});
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+test('a setting the mode does not declare is rejected', () => {
+  const result = validateArenaSettings('predators', { infection_hold_ms: 1000 } as never);
+  assert.equal(result.success, false);
+  assert.deepEqual(!result.success && result.error.details, { setting: 'infection_hold_ms' });
+});
+
+test('values must be finite numbers within range', () => {
+  assert.equal(validateArenaSettings('predators', { capture_distance_meters: NaN }).success, false);
+  assert.equal(validateArenaSettings('predators', { capture_distance_meters: 0.1 }).success, false);
+  assert.equal(validateArenaSettings('predators', { capture_distance_meters: 11 }).success, false);
+  assert.equal(validateArenaSettings('predators', { capture_distance_meters: 10 }).success, true);
+});
+
+test('integer settings reject fractions', () => {
+  const result = validateArenaSettings('predators', { capture_hold_ms: 1500.5 });
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error.message : '', /whole number/);
+});
+
+test('the warning distance cannot be inside the capture distance', () => {
+  const result = validateArenaSettings('predators', {
+    capture_distance_meters: 5,
+    warning_distance_meters: 4,
+  });
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error.message : '', /Warning distance/);
+});
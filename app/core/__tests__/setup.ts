@@ -0,0 +1,40 @@
+/**
+ * Social Arena - Test Setup
+ *
+ * Node stand-ins for the native modules core/ imports, loaded by
+ * `npm test` before every test file. Everything else runs unmodified.
+ */
+
+import Module from 'node:module';
+import { randomBytes } from 'node:crypto';
+
+const storage: Map<string, string> = new Map();
+
+const nativeModules: Record<string, unknown> = {
+  'expo-crypto': {
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+  },
+  '@react-native-async-storage/async-storage': {
+    __esModule: true,
+    default: {
+      getItem: async (key: string) => storage.get(key) ?? null,
+      setItem: async (key: string, value: string) => {
+        storage.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        storage.delete(key);
+      },
+    },
+  },
+};
+
+const moduleLoader = Module as unknown as {
+  _load(request: string, parent: unknown, isMain: boolean): unknown;
+};
+const load = moduleLoader._load;
+moduleLoader._load = function (request, parent, isMain) {
+  if (request in nativeModules) {
+    return nativeModules[request];
+  }
+  return load.call(this, request, parent, isMain);
+};
@@ -0,0 +1,238 @@
+/**
+ * Social Arena - Account Deletion
+ *
+ * Deleting an account removes the user's credentials, sessions,
+ * memberships, lobby places and location data. Owned rooms are handed to
+ * another member or deleted. Arena history is kept for everyone else: the
+ * user's participant rows in past arenas are re-keyed to an anonymous ID
+ * instead of deleted.
+ */
+
+import { Arena, Result, ArenaError, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import { requireAuth, setCurrentUser, checkUserPassword } from './auth';
+import { clearCurrentSession } from './sessions';
+import { deleteRoom, pickRoomSuccessor } from './rooms';
+import { cancelArena } from './arenas';
+import { publishArenaEvent } from './events';
+import { toBase64Url, randomBytes } from '../lib/crypto';
+
+export const DELETED_USER_ID_PREFIX = 'deleted-';
+
+export interface DeleteAccountOptions {
+  ownedRooms?: 'transfer' | 'delete'; // Default: transfer when other members remain
+}
+
+export interface AccountDeletionSummary {
+  anonymous_id: string;
+  rooms_transferred: number;
+  rooms_deleted: number;
+  rooms_left: number;
+  lobbies_left: number;
+  arenas_anonymized: number;
+}
+
+/**
+ * Check whether a user ID belongs to a deleted account
+ */
+export function isDeletedUserId(userId: string): boolean {
+  return userId.startsWith(DELETED_USER_ID_PREFIX);
+}
+
+/**
+ * Delete the current user's account (requires their password)
+ * Fails while the user is playing in or hosting an active arena.
+ */
+export async function deleteAccount(
+  password: string,
+  options: DeleteAccountOptions = {}
+): Promise<Result<AccountDeletionSummary, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const currentUser = requireAuth();
+    const userId = currentUser.id;
+
+    const user = await store.getUserById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User not found',
+          ErrorCodes.USER_NOT_FOUND
+        ),
+      };
+    }
+
+    const passwordHash = await checkUserPassword(userId, password);
+    if (passwordHash === null) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Incorrect password',
+          ErrorCodes.INVALID_CREDENTIALS
+        ),
+      };
+    }
+
+    // Collect the rooms and their arenas up front
+    const rooms = await store.getRoomsByUserId(userId);
+    const roomArenas = new Map<string, Arena[]>();
+    for (const room of rooms) {
+      const arenas = await store.getArenasByRoomId(room.id);
+      if (arenas.some(a => a.status === 'active' && a.host_id === userId)) {
+        return {
+          success: false,
+          error: new ArenaError(
+            'Cannot delete your account while hosting an active arena',
+            ErrorCodes.PARTICIPANT_IN_ACTIVE_ARENA
+          ),
+        };
+      }
+      roomArenas.set(room.id, arenas);
+    }
+
+    if (await store.getActiveArenaByUserId(userId)) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Cannot delete your account while in an active arena',
+          ErrorCodes.PARTICIPANT_IN_ACTIVE_ARENA
+        ),
+      };
+    }
+
+    const summary: AccountDeletionSummary = {
+      anonymous_id: `${DELETED_USER_ID_PREFIX}${toBase64Url(randomBytes(12))}`,
+      rooms_transferred: 0,
+      rooms_deleted: 0,
+      rooms_left: 0,
+      lobbies_left: 0,
+      arenas_anonymized: 0,
+    };
+    const anonymousId = summary.anonymous_id;
+
+    // 1. Cancel lobbies the user is hosting
+    for (const arenas of roomArenas.values()) {
+      for (const arena of arenas) {
+        if (arena.status === 'lobby' && arena.host_id === userId) {
+          const cancelResult = await cancelArena(arena.id);
+          if (!cancelResult.success) {
+            return {
+              success: false,
+              error: cancelResult.error,
+            };
+          }
+        }
+      }
+    }
+
+    // 2. Hand over or delete owned rooms, leave the rest
+    for (const room of rooms) {
+      if (room.owner_id !== userId) {
+        await store.removeRoomMember(room.id, userId);
+        summary.rooms_left++;
+        continue;
+      }
+
+      const successor =
+        options.ownedRooms === 'delete'
+          ? undefined
+          : pickRoomSuccessor(await store.getRoomMembers(room.id), userId);
+
+      if (!successor) {
+        const deleteResult = await deleteRoom(room.id);
+        if (!deleteResult.success) {
+          return {
+            success: false,
+            error: deleteResult.error,
+          };
+        }
+        roomArenas.delete(room.id);
+        summary.rooms_deleted++;
+        continue;
+      }
+
+      await store.updateRoom(room.id, { owner_id: successor.user_id });
+      await store.updateRoomMember(room.id, successor.user_id, { role: 'owner' });
+      await store.removeRoomMember(room.id, userId);
+      summary.rooms_transferred++;
+    }
+
+    // 3. Leave lobbies and anonymize arena history that outlives the account
+    for (const arenas of roomArenas.values()) {
+      for (const arena of arenas) {
+        if (arena.status === 'ended' && arena.host_id === userId) {
+          await store.updateArena(arena.id, { host_id: anonymousId });
+        }
+      }
+    }
+
+    const participations = await store.getArenaParticipantsByUserId(userId);
+    for (const participation of participations) {
+      // Location data is personal; none of it outlives the account
+      await store.deleteLocationTrack(participation.arena_id, userId);
+      await store.deleteLocationFlags(participation.arena_id, userId);
+      await store.deleteBleProximityLogs(participation.arena_id, userId);
+
+      // A lobby has no results to keep, so the user's place is removed
+      const arena = await store.getArenaById(participation.arena_id);
+      if (arena?.status === 'lobby') {
+        await store.deleteArenaParticipant(participation.arena_id, userId);
+        const now = new Date();
+        publishArenaEvent({
+          type: 'participant_left',
+          arena_id: participation.arena_id,
+          participant: { ...participation, status: 'left', left_at: now },
+          timestamp: now,
+        });
+        summary.lobbies_left++;
+        continue;
+      }
+
+      await store.updateArenaParticipant(participation.arena_id, userId, {
+        user_id: anonymousId,
+        status: participation.status === 'joined' ? 'left' : participation.status,
+        left_at: participation.status === 'joined' ? new Date() : participation.left_at,
+        last_latitude: undefined,
+        last_longitude: undefined,
+        last_location_updated_at: undefined,
+        is_ble_broadcasting: false,
+      });
+
+      const others = await store.getArenaParticipants(participation.arena_id);
+      for (const other of others) {
+        if (other.captured_by_user_id === userId) {
+          await store.updateArenaParticipant(participation.arena_id, other.user_id, {
+            captured_by_user_id: anonymousId,
+          });
+        }
+      }
+
+      summary.arenas_anonymized++;
+    }
+
+    // 4. Remove credentials, sessions and account tokens
+    if (!(await store.deleteUser(userId, passwordHash))) {
+      throw new ArenaError(
+        'Password changed during deletion',
+        ErrorCodes.INVALID_CREDENTIALS
+      );
+    }
+
+    setCurrentUser(null);
+    await clearCurrentSession();
+
+    return {
+      success: true,
+      data: summary,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to delete account',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * Social Arena - Password Reset & Email Verification
+ *
+ * Both flows email a single-use, expiring token. Only a SHA-256 hash of
+ * the token is stored, requests are rate limited per email address, and
+ * issuing a new token invalidates the user's older ones for that purpose.
+ */
+
+import {
+  User,
+  AccountToken,
+  AccountTokenPurpose,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from './types';
+import { getStateStore } from './store';
+import { getMailer } from './mailer';
+import { requireAuth, getCurrentUser, setCurrentUser } from './auth';
+import { hashPassword } from './passwords';
+import { clearCurrentSession } from './sessions';
+import { utf8Encode, toBase64, toBase64Url, sha256, randomBytes } from '../lib/crypto';
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+export const ACCOUNT_EMAIL_RATE_LIMIT = 3; // Emails per address and purpose...
+export const ACCOUNT_EMAIL_RATE_WINDOW_MS = 60 * 60 * 1000; // ...per hour
+
+const TOKEN_BYTES = 32;
+const LINK_PREFIX = 'socialarena://';
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+const emailRequestLog: Map<string, number[]> = new Map(); // key: `${purpose}:${email}`
+
+/**
+ * Record a request for an address, returning false when over the limit
+ */
+function takeEmailRateLimit(purpose: AccountTokenPurpose, email: string, now: number): boolean {
+  const key = `${purpose}:${email.toLowerCase()}`;
+  const recent = (emailRequestLog.get(key) || []).filter(
+    time => now - time < ACCOUNT_EMAIL_RATE_WINDOW_MS
+  );
+
+  if (recent.length >= ACCOUNT_EMAIL_RATE_LIMIT) {
+    emailRequestLog.set(key, recent);
+    return false;
+  }
+
+  recent.push(now);
+  emailRequestLog.set(key, recent);
+  return true;
+}
+
+/**
+ * Forget all rate limit history (for testing)
+ */
+export function resetAccountEmailRateLimits(): void {
+  emailRequestLog.clear();
+}
+
+function rateLimited(): ArenaError {
+  return new ArenaError(
+    'Too many requests for this email. Try again later.',
+    ErrorCodes.RATE_LIMITED
+  );
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function hashToken(token: string): string {
+  return toBase64(sha256(utf8Encode(token)));
+}
+
+/**
+ * Issue a token for a user, invalidating their outstanding ones for the purpose
+ * Returns the raw token; only its hash is stored.
+ */
+async function issueAccountToken(
+  user: User,
+  purpose: AccountTokenPurpose,
+  ttlMs: number,
+  now: Date
+): Promise<string> {
+  const token = toBase64Url(randomBytes(TOKEN_BYTES));
+  await getStateStore().createAccountToken({
+    user_id: user.id,
+    purpose,
+    token_hash: hashToken(token),
+    email: user.email,
+    expires_at: new Date(now.getTime() + ttlMs),
+  });
+  return token;
+}
+
+/**
+ * Look up an unused, unexpired token for a purpose
+ */
+async function findValidToken(
+  token: string,
+  purpose: AccountTokenPurpose,
+  now: Date
+): Promise<Result<AccountToken, ArenaError>> {
+  const store = getStateStore();
+
+  const record = token ? await store.getAccountTokenByHash(hashToken(token)) : undefined;
+  if (!record || record.purpose !== purpose || record.used_at) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Invalid or already used link',
+        ErrorCodes.INVALID_TOKEN
+      ),
+    };
+  }
+
+  if (record.expires_at.getTime() <= now.getTime()) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'This link has expired',
+        ErrorCodes.INVALID_TOKEN
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: record,
+  };
+}
+
+// ============================================================================
+// PASSWORD RESET
+// ============================================================================
+
+/**
+ * Email a password reset link
+ * Succeeds for unknown addresses too, so it cannot be used to probe accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<Result<void, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const now = new Date();
+
+    if (!email) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Email is required',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    if (!takeEmailRateLimit('password_reset', email, now.getTime())) {
+      return {
+        success: false,
+        error: rateLimited(),
+      };
+    }
+
+    const user = await store.getUserByEmail(email);
+    if (user) {
+      const token = await issueAccountToken(user, 'password_reset', PASSWORD_RESET_TTL_MS, now);
+      await getMailer().send({
+        to: user.email,
+        subject: 'Reset your Social Arena password',
+        text:
+          `Open this link to choose a new password:\n${LINK_PREFIX}reset-password/${token}\n\n` +
+          'The link expires in 1 hour. If you did not ask for this, ignore this email.',
+      });
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to request password reset',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Set a new password with a reset token
+ * Signs the user out everywhere (the store revokes their sessions).
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<Result<void, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const now = new Date();
+
+    if (!newPassword) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Password is required',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    const tokenResult = await findValidToken(token, 'password_reset', now);
+    if (!tokenResult.success) {
+      return {
+        success: false,
+        error: tokenResult.error,
+      };
+    }
+    const record = tokenResult.data;
+
+    // Uses the token, replaces the hash and revokes every session in one step
+    const userId = await store.resetPassword(record.token_hash, await hashPassword(newPassword));
+    if (!userId) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Invalid or already used link',
+          ErrorCodes.INVALID_TOKEN
+        ),
+      };
+    }
+
+    if (getCurrentUser()?.id === userId) {
+      setCurrentUser(null);
+      await clearCurrentSession();
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to reset password',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// EMAIL VERIFICATION
+// ============================================================================
+
+/**
+ * Email a verification link to the current user's address
+ */
+export async function sendVerificationEmail(): Promise<Result<void, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const now = new Date();
+    const currentUser = requireAuth();
+
+    const user = (await store.getUserById(currentUser.id)) || currentUser;
+    if (user.email_verified_at) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Email is already verified',
+          ErrorCodes.INVALID_STATE_TRANSITION
+        ),
+      };
+    }
+
+    if (!takeEmailRateLimit('email_verification', user.email, now.getTime())) {
+      return {
+        success: false,
+        error: rateLimited(),
+      };
+    }
+
+    const token = await issueAccountToken(
+      user,
+      'email_verification',
+      EMAIL_VERIFICATION_TTL_MS,
+      now
+    );
+    await getMailer().send({
+      to: user.email,
+      subject: 'Verify your Social Arena email',
+      text:
+        `Open this link to verify your email address:\n${LINK_PREFIX}verify-email/${token}\n\n` +
+        'The link expires in 24 hours.',
+    });
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to send verification email',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Mark an email address as verified with a verification token
+ * The token only counts for the address it was sent to.
+ */
+export async function verifyEmail(token: string): Promise<Result<User, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const now = new Date();
+
+    const tokenResult = await findValidToken(token, 'email_verification', now);
+    if (!tokenResult.success) {
+      return {
+        success: false,
+        error: tokenResult.error,
+      };
+    }
+    const record = tokenResult.data;
+
+    if (!(await store.useAccountToken(record.token_hash))) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Invalid or already used link',
+          ErrorCodes.INVALID_TOKEN
+        ),
+      };
+    }
+
+    const user = await store.getUserById(record.user_id);
+    if (!user || user.email !== record.email) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'This link is for a different email address',
+          ErrorCodes.INVALID_TOKEN
+        ),
+      };
+    }
+
+    const updatedUser = (await store.updateUser(user.id, { email_verified_at: now })) || user;
+    if (getCurrentUser()?.id === updatedUser.id) {
+      setCurrentUser(updatedUser);
+    }
+
+    return {
+      success: true,
+      data: updatedUser,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to verify email',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Social Arena - Movement Validation
+ *
+ * Checks each location update against the participant's previous fix so
+ * a modified client cannot jump onto another player. Teleports are
+ * rejected; implausible speeds and replayed coordinates are stored but
+ * quarantined, so they do not count towards captures for a while. Every
+ * flag raises the participant's suspicion score and is logged for the host.
+ */
+
+import {
+  ArenaParticipant,
+  LocationFlag,
+  LocationFlagKind,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from './types';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
+import { calculateDistance, isLocationQuarantined } from './proximity';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_PLAYER_SPEED_MPS = 10; // Faster than a sprint
+export const TELEPORT_SPEED_MPS = 50; // Faster than any car in a park...
+export const TELEPORT_MIN_DISTANCE_METERS = 50; // ...over more than GPS noise
+export const MIN_FIX_INTERVAL_MS = 250; // Shorter gaps are timed as this long
+export const REPLAY_HISTORY_SIZE = 20; // Recent fixes checked for replays
+export const LOCATION_QUARANTINE_MS = 15000;
+
+export const SUSPICION_WEIGHTS: Record<LocationFlagKind, number> = {
+  speed: 1,
+  replay: 2,
+  teleport: 3,
+};
+
+export interface MovementFix {
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number;
+  timestamp: number;
+}
+
+export interface MovementVerdict {
+  action: 'accept' | 'quarantine' | 'reject';
+  kind?: LocationFlagKind; // Set unless accepted
+  distance_meters?: number; // From the previous fix, less both accuracies
+  speed_mps?: number;
+}
+
+export interface SuspicionReportEntry {
+  user_id: string;
+  suspicion_score: number;
+  is_quarantined: boolean;
+  flag_counts: Record<LocationFlagKind, number>;
+  flags: LocationFlag[]; // Oldest first
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Judge a fix against the previous one and the participant's recent fixes
+ * Distance is reduced by both fixes' reported accuracy before computing speed.
+ * A fix identical to an earlier one (but not the last) is a replay.
+ */
+export function validateMovement(
+  previous: MovementFix | undefined,
+  next: MovementFix,
+  history: MovementFix[] = []
+): MovementVerdict {
+  if (!previous) {
+    return { action: 'accept' };
+  }
+
+  const samePosition = (fix: MovementFix) =>
+    fix.latitude === next.latitude && fix.longitude === next.longitude;
+  if (!samePosition(previous) && history.slice(0, -1).some(samePosition)) {
+    return { action: 'quarantine', kind: 'replay' };
+  }
+
+  const rawDistance = calculateDistance(
+    previous.latitude,
+    previous.longitude,
+    next.latitude,
+    next.longitude
+  );
+  const distance = Math.max(
+    0,
+    rawDistance - (previous.accuracy_meters ?? 0) - (next.accuracy_meters ?? 0)
+  );
+  const elapsedMs = Math.max(next.timestamp - previous.timestamp, MIN_FIX_INTERVAL_MS);
+  const speed = distance / (elapsedMs / 1000);
+
+  if (speed > TELEPORT_SPEED_MPS && distance > TELEPORT_MIN_DISTANCE_METERS) {
+    return { action: 'reject', kind: 'teleport', distance_meters: distance, speed_mps: speed };
+  }
+
+  if (speed > MAX_PLAYER_SPEED_MPS) {
+    return { action: 'quarantine', kind: 'speed', distance_meters: distance, speed_mps: speed };
+  }
+
+  return { action: 'accept', distance_meters: distance, speed_mps: speed };
+}
+
+// ============================================================================
+// FIX HISTORY
+// ============================================================================
+
+const recentFixes: Map<string, MovementFix[]> = new Map(); // key: `${arenaId}:${userId}`
+
+/**
+ * Validate a participant's new fix and remember it if it was stored
+ * Only fixes reported by the device are compared; generated coordinates
+ * are not something the player moved from.
+ */
+export function checkMovement(
+  participant: ArenaParticipant,
+  next: MovementFix
+): MovementVerdict {
+  const key = `${participant.arena_id}:${participant.user_id}`;
+  const history = recentFixes.get(key) || [];
+
+  const previous =
+    participant.last_location_source !== undefined &&
+    participant.last_location_source !== 'fake' &&
+    participant.last_latitude !== undefined &&
+    participant.last_longitude !== undefined &&
+    participant.last_location_updated_at
+      ? {
+          latitude: participant.last_latitude,
+          longitude: participant.last_longitude,
+          accuracy_meters: participant.last_location_accuracy_meters,
+          timestamp: participant.last_location_updated_at.getTime(),
+        }
+      : undefined;
+
+  const verdict = validateMovement(previous, next, history);
+  if (verdict.action !== 'reject') {
+    history.push(next);
+    recentFixes.set(key, history.slice(-REPLAY_HISTORY_SIZE));
+  }
+  return verdict;
+}
+
+/**
+ * Forget recent fixes for a participant, an arena, or every arena (for testing)
+ */
+export function clearMovementHistory(arenaId?: string, userId?: string): void {
+  if (!arenaId) {
+    recentFixes.clear();
+    return;
+  }
+  if (userId) {
+    recentFixes.delete(`${arenaId}:${userId}`);
+    return;
+  }
+  for (const key of Array.from(recentFixes.keys())) {
+    if (key.startsWith(`${arenaId}:`)) {
+      recentFixes.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Get every flagged participant in an arena, most suspicious first (host only)
+ */
+export async function getSuspicionReport(
+  arenaId: string
+): Promise<Result<SuspicionReportEntry[], ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+    const now = Date.now();
+
+    const arena = await store.getArenaById(arenaId);
+    if (!arena) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena not found',
+          ErrorCodes.ARENA_NOT_FOUND
+        ),
+      };
+    }
+
+    if (arena.host_id !== userId) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Only the host can view the suspicion report',
+          ErrorCodes.NOT_HOST
+        ),
+      };
+    }
+
+    const participants = await store.getArenaParticipants(arenaId);
+    const flags = await store.getLocationFlags(arenaId);
+
+    const report: SuspicionReportEntry[] = participants
+      .filter(p => (p.suspicion_score ?? 0) > 0)
+      .map(p => {
+        const userFlags = flags.filter(flag => flag.user_id === p.user_id);
+        const flagCounts: Record<LocationFlagKind, number> = { speed: 0, teleport: 0, replay: 0 };
+        for (const flag of userFlags) {
+          flagCounts[flag.kind]++;
+        }
+        return {
+          user_id: p.user_id,
+          suspicion_score: p.suspicion_score!,
+          is_quarantined: isLocationQuarantined(p, now),
+          flag_counts: flagCounts,
+          flags: userFlags,
+        };
+      })
+      .sort((a, b) => b.suspicion_score - a.suspicion_score);
+
+    return {
+      success: true,
+      data: report,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to get suspicion report',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
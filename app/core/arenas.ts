@@ -7,6 +7,7 @@
 
 import {
   Arena,
+  ArenaSettings,
   ArenaStatus,
   GameMode,
   ArenaWithParticipants,
@@ -16,12 +17,17 @@ import {
   ArenaError,
   ErrorCodes,
 } from './types';
-import { store } from './store';
-import { getDeviceId } from '../lib/deviceId';
-import { supabase } from '../lib/supabase';
-import { requireRoomMembership } from './rooms';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
 import { getArenaParticipants } from './participants';
+import { checkRoomCapability } from './rooms';
 import { initializeParticipantLocations } from './location';
+import { clearMovementHistory } from './antiCheat';
+import { compactArenaTracks } from './tracks';
+import { publishArenaEvent } from './events';
+import { startArenaClock, stopArenaClock } from './timer';
+import { getGameMode, getArenaSettings, validateArenaSettings } from './modes/registry';
+import './modes'; // Registers the built-in game modes
 
 // ============================================================================
 // ARENA STATE MACHINE
@@ -46,14 +52,17 @@ function canTransition(from: ArenaStatus, to: ArenaStatus): boolean {
  * 
  * Enforces invariants:
  * - Invariant 1: No active arena in room
+ * Settings are validated against the mode's schema; omitted values use its defaults.
  */
 export async function createArena(
   roomId: string,
   mode: GameMode = 'predators',
-  durationMinutes: number = 12
+  durationMinutes: number = 12,
+  settings: Partial<ArenaSettings> = {}
 ): Promise<Result<Arena, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
     // Validation
     if (durationMinutes < 1 || durationMinutes > 60) {
@@ -66,16 +75,17 @@ export async function createArena(
       };
     }
 
-    // Check if room exists (try Supabase first, then fallback to store)
-    const { data: roomData } = await supabase
-      .from('rooms')
-      .select('id')
-      .eq('id', roomId)
-      .single();
+    const settingsResult = validateArenaSettings(mode, settings);
+    if (!settingsResult.success) {
+      return {
+        success: false,
+        error: settingsResult.error,
+      };
+    }
 
-    const room = roomData ? null : store.getRoomById(roomId);
-    
-    if (!roomData && !room) {
+    // Check if room exists
+    const room = await store.getRoomById(roomId);
+    if (!room) {
       return {
         success: false,
         error: new ArenaError(
@@ -85,28 +95,17 @@ export async function createArena(
       };
     }
 
-    // Check room membership (try Supabase first)
-    const { data: memberData } = await supabase
-      .from('room_members')
-      .select('id')
-      .eq('room_id', roomId)
-      .eq('user_id', userId)
-      .single();
-
-    const isMember = memberData || store.isRoomMember(roomId, userId);
-    
-    if (!isMember) {
+    // Check room membership and role
+    const permissionError = await checkRoomCapability(room, userId, 'create_arena');
+    if (permissionError) {
       return {
         success: false,
-        error: new ArenaError(
-          'User is not a member of this room',
-          ErrorCodes.NOT_MEMBER
-        ),
+        error: permissionError,
       };
     }
 
     // Invariant 1: Check if room already has an active arena
-    const activeArena = store.getActiveArenaByRoomId(roomId);
+    const activeArena = await store.getActiveArenaByRoomId(roomId);
     if (activeArena) {
       return {
         success: false,
@@ -119,13 +118,13 @@ export async function createArena(
     }
 
     // Check if user (host) already has a pending arena in this room
-    const allArenas = store.getArenasByRoomId(roomId);
+    const allArenas = await store.getArenasByRoomId(roomId);
     const userPendingArena = allArenas.find(
       arena => arena.status === 'lobby' && arena.host_id === userId
     );
     if (userPendingArena) {
       // Check if user is still a participant
-      const participant = store.getArenaParticipant(userPendingArena.id, userId);
+      const participant = await store.getArenaParticipant(userPendingArena.id, userId);
       if (participant && participant.status === 'joined') {
         return {
           success: false,
@@ -140,16 +139,14 @@ export async function createArena(
       // For now, we'll allow them to create a new one (the old one will be orphaned)
     }
 
-    // Create arena (still using in-memory store for now)
-    const arena = store.createArena({
+    // Create arena
+    const arena = await store.createArena({
       room_id: roomId,
       mode,
       status: 'lobby',
       host_id: userId,
       duration_minutes: durationMinutes,
-      settings: {},
-      created_at: new Date(),
-      updated_at: new Date(),
+      settings: settingsResult.data,
     });
 
     return {
@@ -170,10 +167,10 @@ export async function createArena(
 /**
  * Get arena by ID
  */
-export function getArena(arenaId: string): Result<Arena, ArenaError> {
+export async function getArena(arenaId: string): Promise<Result<Arena, ArenaError>> {
   // No auth required - just get the arena
 
-  const arena = store.getArenaById(arenaId);
+  const arena = await getStateStore().getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -193,15 +190,15 @@ export function getArena(arenaId: string): Result<Arena, ArenaError> {
 /**
  * Get arena with participants
  */
-export function getArenaWithParticipants(
+export async function getArenaWithParticipants(
   arenaId: string
-): Result<ArenaWithParticipants, ArenaError> {
-  const arenaResult = getArena(arenaId);
+): Promise<Result<ArenaWithParticipants, ArenaError>> {
+  const arenaResult = await getArena(arenaId);
   if (!arenaResult.success) {
     return arenaResult;
   }
 
-  const participantsResult = getArenaParticipants(arenaId);
+  const participantsResult = await getArenaParticipants(arenaId);
   if (!participantsResult.success) {
     return participantsResult;
   }
@@ -218,11 +215,11 @@ export function getArenaWithParticipants(
 /**
  * Get active arena in a room
  */
-export function getActiveArenaInRoom(
+export async function getActiveArenaInRoom(
   roomId: string
-): Result<Arena | null, ArenaError> {
+): Promise<Result<Arena | null, ArenaError>> {
   // No auth required - just get the active arena
-  const activeArena = store.getActiveArenaByRoomId(roomId);
+  const activeArena = await getStateStore().getActiveArenaByRoomId(roomId);
   return {
     success: true,
     data: activeArena || null,
@@ -232,11 +229,11 @@ export function getActiveArenaInRoom(
 /**
  * Get pending (lobby) arena in a room
  */
-export function getPendingArenaInRoom(
+export async function getPendingArenaInRoom(
   roomId: string
-): Result<Arena | null, ArenaError> {
+): Promise<Result<Arena | null, ArenaError>> {
   // No auth required - just get the pending arena
-  const allArenas = store.getArenasByRoomId(roomId);
+  const allArenas = await getStateStore().getArenasByRoomId(roomId);
   const pendingArena = allArenas.find(arena => arena.status === 'lobby');
   return {
     success: true,
@@ -244,20 +241,105 @@ export function getPendingArenaInRoom(
   };
 }
 
+/**
+ * Update arena settings (host only, lobby only)
+ * Values are merged into the current settings and validated against the mode's schema.
+ */
+export async function updateArenaSettings(
+  arenaId: string,
+  updates: Partial<ArenaSettings>
+): Promise<Result<Arena, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const arena = await store.getArenaById(arenaId);
+    if (!arena) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena not found',
+          ErrorCodes.ARENA_NOT_FOUND
+        ),
+      };
+    }
+
+    if (arena.host_id !== userId) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Only the host can change arena settings',
+          ErrorCodes.NOT_HOST
+        ),
+      };
+    }
+
+    if (arena.status !== 'lobby') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Settings can only be changed in the lobby',
+          ErrorCodes.INVALID_STATE_TRANSITION
+        ),
+      };
+    }
+
+    const settingsResult = validateArenaSettings(arena.mode, {
+      ...arena.settings,
+      ...updates,
+    });
+    if (!settingsResult.success) {
+      return {
+        success: false,
+        error: settingsResult.error,
+      };
+    }
+
+    const updated = await store.updateArena(arenaId, {
+      settings: settingsResult.data,
+      updated_at: new Date(),
+    });
+
+    if (!updated) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to update arena settings',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to update arena settings',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
 /**
  * Start an arena
  * 
  * Enforces all invariants:
  * - Invariant 1: No active arena in room
  * - Invariant 2: No participant in another active arena
- * - Valid role distribution (1 prey, 1-12 hunters for predators)
+ * - Valid role distribution (declared by the game mode)
  */
 export async function startArena(arenaId: string): Promise<Result<Arena, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -291,7 +373,7 @@ export async function startArena(arenaId: string): Promise<Result<Arena, ArenaEr
   }
 
   // Invariant 1: Check if room already has an active arena
-  const activeArenaInRoom = store.getActiveArenaByRoomId(arena.room_id);
+  const activeArenaInRoom = await store.getActiveArenaByRoomId(arena.room_id);
   if (activeArenaInRoom && activeArenaInRoom.id !== arenaId) {
     return {
       success: false,
@@ -304,40 +386,32 @@ export async function startArena(arenaId: string): Promise<Result<Arena, ArenaEr
   }
 
   // Get participants
-  const participants = store.getArenaParticipants(arenaId);
+  const participants = await store.getArenaParticipants(arenaId);
   const joinedParticipants = participants.filter(p => p.status === 'joined');
 
-  // Validate role distribution (for predators mode)
-  if (arena.mode === 'predators') {
-    const prey = joinedParticipants.filter(p => p.role === 'prey');
-    const hunters = joinedParticipants.filter(p => p.role === 'hunter');
-
-    if (prey.length !== 1) {
-      return {
-        success: false,
-        error: new ArenaError(
-          `Must have exactly 1 prey (found ${prey.length})`,
-          ErrorCodes.INVALID_ROLES,
-          { prey_count: prey.length, required: 1 }
-        ),
-      };
-    }
+  // Validate role distribution for the arena's mode
+  const definition = getGameMode(arena.mode);
+  if (!definition) {
+    return {
+      success: false,
+      error: new ArenaError(
+        `Unsupported game mode: ${arena.mode}`,
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
 
-    if (hunters.length < 1 || hunters.length > 12) {
-      return {
-        success: false,
-        error: new ArenaError(
-          `Must have 1-12 hunters (found ${hunters.length})`,
-          ErrorCodes.INVALID_ROLES,
-          { hunter_count: hunters.length, required: { min: 1, max: 12 } }
-        ),
-      };
-    }
+  const rolesError = definition.validateStart(joinedParticipants, getArenaSettings(arena));
+  if (rolesError) {
+    return {
+      success: false,
+      error: rolesError,
+    };
   }
 
   // Invariant 2: Check each participant is not in another active arena
   for (const participant of joinedParticipants) {
-    const userActiveArena = store.getActiveArenaByUserId(participant.user_id);
+    const userActiveArena = await store.getActiveArenaByUserId(participant.user_id);
     if (userActiveArena && userActiveArena.id !== arenaId) {
       return {
         success: false,
@@ -352,7 +426,7 @@ export async function startArena(arenaId: string): Promise<Result<Arena, ArenaEr
 
   // All validations passed - execute transition
   const now = new Date();
-  const updated = store.updateArena(arenaId, {
+  const updated = await store.updateArena(arenaId, {
     status: 'active',
     started_at: now,
     updated_at: now,
@@ -369,16 +443,26 @@ export async function startArena(arenaId: string): Promise<Result<Arena, ArenaEr
   }
 
   // Start BLE broadcast for prey
-  const prey = joinedParticipants.find(p => p.role === 'prey');
-  if (prey) {
-    store.updateArenaParticipant(arenaId, prey.user_id, {
+  const broadcasters = joinedParticipants.filter(p => definition.isBleBroadcaster(p));
+  for (const broadcaster of broadcasters) {
+    await store.updateArenaParticipant(arenaId, broadcaster.user_id, {
       is_ble_broadcasting: true,
       ble_started_at: now,
     });
   }
 
   // Initialize participant locations
-  initializeParticipantLocations(arenaId);
+  await initializeParticipantLocations(arenaId);
+
+  // Start the game clock (ends the arena on timeout)
+  startArenaClock(updated);
+
+  publishArenaEvent({
+    type: 'arena_started',
+    arena_id: arenaId,
+    arena: updated,
+    timestamp: now,
+  });
 
   return {
     success: true,
@@ -404,10 +488,11 @@ export async function endArena(
   winnerTeam?: 'hunters' | 'prey'
 ): Promise<Result<Arena, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -440,55 +525,68 @@ export async function endArena(
     };
   }
 
-  // Update arena
+  // Update arena - only if it is still in the status we read, so when
+  // several devices end it at once only one runs the end side effects
   const now = new Date();
-  const updated = store.updateArena(arenaId, {
-    status: 'ended',
-    ended_at: now,
-    ended_reason: reason,
-    winner_team: winnerTeam,
-    updated_at: now,
-  });
+  const updated = await store.updateArena(
+    arenaId,
+    {
+      status: 'ended',
+      ended_at: now,
+      ended_reason: reason,
+      winner_team: winnerTeam,
+      updated_at: now,
+    },
+    arena.status
+  );
 
   if (!updated) {
     return {
       success: false,
       error: new ArenaError(
-        'Failed to end arena',
-        ErrorCodes.INVALID_INPUT
+        'Arena was already ended',
+        ErrorCodes.ARENA_ALREADY_ENDED
       ),
     };
   }
 
+  stopArenaClock(arenaId);
+  clearMovementHistory(arenaId);
+
   // Stop BLE broadcast for all participants
-  const participants = store.getArenaParticipants(arenaId);
+  const participants = await store.getArenaParticipants(arenaId);
   for (const participant of participants) {
     if (participant.is_ble_broadcasting) {
-      store.updateArenaParticipant(arenaId, participant.user_id, {
+      await store.updateArenaParticipant(arenaId, participant.user_id, {
         is_ble_broadcasting: false,
       });
     }
   }
 
-  // Update participant statuses based on reason
-  if (reason === 'capture' && winnerTeam === 'hunters') {
-    const prey = participants.find(p => p.role === 'prey' && p.status === 'joined');
-    if (prey) {
-      store.updateArenaParticipant(arenaId, prey.user_id, {
-        status: 'captured',
-        is_captured: true,
-        captured_at: now,
-      });
-    }
-  } else if (reason === 'timeout' && winnerTeam === 'prey') {
-    const prey = participants.find(p => p.role === 'prey' && p.status === 'joined');
-    if (prey) {
-      store.updateArenaParticipant(arenaId, prey.user_id, {
-        status: 'escaped',
-      });
-    }
+  // Update participant statuses according to the mode's rules
+  const transitions = getGameMode(arena.mode)?.getEndTransitions(
+    participants,
+    reason,
+    winnerTeam,
+    now
+  ) ?? [];
+  for (const transition of transitions) {
+    await store.updateArenaParticipant(arenaId, transition.user_id, transition.updates);
+  }
+
+  // The game is over - its tracks no longer need every fix
+  const compactResult = await compactArenaTracks(arenaId);
+  if (!compactResult.success) {
+    console.error('Error compacting arena tracks:', compactResult.error.message);
   }
 
+  publishArenaEvent({
+    type: 'arena_ended',
+    arena_id: arenaId,
+    arena: updated,
+    timestamp: now,
+  });
+
   return {
     success: true,
     data: updated,
@@ -512,17 +610,20 @@ export async function cancelArena(arenaId: string): Promise<Result<Arena, ArenaE
 }
 
 /**
- * Capture prey (ends arena with hunters win)
+ * Capture prey
+ * Ends the arena with a hunters win once no prey remain; otherwise
+ * returns the still-active arena.
  */
-export function capturePrey(
+export async function capturePrey(
   arenaId: string,
   preyUserId: string,
   hunterUserId: string
-): Result<Arena, ArenaError> {
+): Promise<Result<Arena, ArenaError>> {
   // No auth required - just capture prey
+  const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -544,9 +645,9 @@ export function capturePrey(
     };
   }
 
-  // Get prey participant
-  const prey = store.getArenaParticipant(arenaId, preyUserId);
-  if (!prey || prey.role !== 'prey') {
+  // Get prey participant (must still be in the game)
+  const prey = await store.getArenaParticipant(arenaId, preyUserId);
+  if (!prey || prey.role !== 'prey' || prey.status !== 'joined') {
     return {
       success: false,
       error: new ArenaError(
@@ -558,7 +659,7 @@ export function capturePrey(
 
   // Update prey status
   const now = new Date();
-  store.updateArenaParticipant(arenaId, preyUserId, {
+  await store.updateArenaParticipant(arenaId, preyUserId, {
     status: 'captured',
     is_captured: true,
     captured_at: now,
@@ -566,7 +667,25 @@ export function capturePrey(
     is_ble_broadcasting: false,
   });
 
-  // End arena with hunters win
-  return endArena(arenaId, 'capture', 'hunters');
+  publishArenaEvent({
+    type: 'prey_captured',
+    arena_id: arenaId,
+    prey_user_id: preyUserId,
+    hunter_user_id: hunterUserId,
+    timestamp: now,
+  });
+
+  // Other prey still running - the arena continues
+  const participants = await store.getArenaParticipants(arenaId);
+  const remainingPrey = participants.filter(p => p.role === 'prey' && p.status === 'joined');
+  if (remainingPrey.length > 0) {
+    return {
+      success: true,
+      data: arena,
+    };
+  }
+
+  // Every prey captured - end arena with hunters win
+  return await endArena(arenaId, 'capture', 'hunters');
 }
 
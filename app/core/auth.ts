@@ -5,8 +5,21 @@
  * Server-authoritative design.
  */
 
-import { User, UserWithoutPassword, Result, ArenaError, ErrorCodes } from './types';
-import { store } from './store';
+import { User, AuthResponse, Result, ArenaError, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  getCurrentSession,
+  loadStoredSession,
+  clearCurrentSession,
+  verifyToken,
+} from './sessions';
+import { claimDeviceIdentity } from './identity';
+import { getDeviceId } from '../lib/deviceId';
+import { hashPassword, derivePasswordHash, needsRehash } from './passwords';
 
 // ============================================================================
 // AUTHENTICATION STATE
@@ -22,6 +35,90 @@ export function setCurrentUser(user: User | null): void {
   currentUser = user;
 }
 
+/**
+ * Get the ID rooms, arenas and participants are keyed on
+ * The account ID when signed in, otherwise this device's anonymous ID.
+ */
+export async function getCurrentUserId(): Promise<string> {
+  return currentUser ? currentUser.id : getDeviceId();
+}
+
+/**
+ * Start a session for a user who just signed up or logged in
+ */
+async function startSession(user: User): Promise<Result<AuthResponse, ArenaError>> {
+  const sessionResult = await createSession(user.id);
+  if (!sessionResult.success) {
+    return {
+      success: false,
+      error: sessionResult.error,
+    };
+  }
+
+  // Set as current user
+  setCurrentUser(user);
+
+  // Bring along anything this device did before signing in
+  const claimResult = await claimDeviceIdentity(user.id);
+  if (!claimResult.success) {
+    console.error('Error claiming device identity:', claimResult.error.message);
+  }
+
+  return {
+    success: true,
+    data: {
+      user,
+      token: sessionResult.data.access_token,
+      refresh_token: sessionResult.data.refresh_token,
+      expires_at: sessionResult.data.access_expires_at,
+    },
+  };
+}
+
+/**
+ * Check a user's password without reading their stored hash
+ * Derives a hash with the stored parameters and lets the store compare it.
+ * Returns that hash (needed to replace or delete the credentials) or null.
+ */
+export async function checkUserPassword(
+  userId: string,
+  password: string
+): Promise<string | null> {
+  const store = getStateStore();
+
+  const params = password ? await store.getPasswordHashParams(userId) : undefined;
+  const passwordHash = params !== undefined ? await derivePasswordHash(password, params) : null;
+  if (passwordHash === null || !(await store.checkPasswordHash(userId, passwordHash))) {
+    return null;
+  }
+  return passwordHash;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check the username rules (3-20 characters: letters, numbers, _ and @)
+ */
+export function validateUsername(username: string): ArenaError | null {
+  if (username.length < 3 || username.length > 20) {
+    return new ArenaError(
+      'Username must be 3-20 characters',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  if (!/^[a-zA-Z0-9_@]+$/.test(username)) {
+    return new ArenaError(
+      'Username can only contain letters, numbers, underscores, and @',
+      ErrorCodes.INVALID_INPUT
+    );
+  }
+
+  return null;
+}
+
 // ============================================================================
 // AUTHENTICATION FUNCTIONS
 // ============================================================================
@@ -29,11 +126,13 @@ export function setCurrentUser(user: User | null): void {
 /**
  * Register a new user
  */
-export function signup(
+export async function signup(
   email: string,
   password: string,
   username: string
-): Result<UserWithoutPassword, ArenaError> {
+): Promise<Result<AuthResponse, ArenaError>> {
+  const store = getStateStore();
+
   // Validation
   if (!email || !password || !username) {
     return {
@@ -45,28 +144,16 @@ export function signup(
     };
   }
 
-  if (username.length < 3 || username.length > 20) {
-    return {
-      success: false,
-      error: new ArenaError(
-        'Username must be 3-20 characters',
-        ErrorCodes.INVALID_INPUT
-      ),
-    };
-  }
-
-  if (!/^[a-zA-Z0-9_@]+$/.test(username)) {
+  const usernameError = validateUsername(username);
+  if (usernameError) {
     return {
       success: false,
-      error: new ArenaError(
-        'Username can only contain letters, numbers, underscores, and @',
-        ErrorCodes.INVALID_INPUT
-      ),
+      error: usernameError,
     };
   }
 
   // Check if email exists
-  const existingUserByEmail = store.getUserByEmail(email);
+  const existingUserByEmail = await store.getUserByEmail(email);
   if (existingUserByEmail) {
     return {
       success: false,
@@ -78,7 +165,7 @@ export function signup(
   }
 
   // Check if username exists
-  const existingUserByUsername = store.getUserByUsername(username);
+  const existingUserByUsername = await store.getUserByUsername(username);
   if (existingUserByUsername) {
     return {
       success: false,
@@ -89,35 +176,34 @@ export function signup(
     };
   }
 
-  // Create user (in production, password would be hashed)
-  const password_hash = `hashed:${password}`; // Placeholder - use bcrypt/argon2 in production
-  
-  const user = store.createUser({
-    email,
-    password_hash,
-    username,
-    created_at: new Date(),
-    updated_at: new Date(),
-  });
+  // Create user with a salted password hash
+  const passwordHash = await hashPassword(password);
 
-  // Set as current user
-  setCurrentUser(user);
+  let user: User;
+  try {
+    user = await store.createUser({ email, username }, passwordHash);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to create account',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
 
-  // Return user without password
-  const { password_hash: _, ...userWithoutPassword } = user;
-  return {
-    success: true,
-    data: userWithoutPassword,
-  };
+  return startSession(user);
 }
 
 /**
  * Login with email and password
  */
-export function login(
+export async function login(
   email: string,
   password: string
-): Result<UserWithoutPassword, ArenaError> {
+): Promise<Result<AuthResponse, ArenaError>> {
+  const store = getStateStore();
+
   // Validation
   if (!email || !password) {
     return {
@@ -130,7 +216,7 @@ export function login(
   }
 
   // Find user by email
-  const user = store.getUserByEmail(email);
+  const user = await store.getUserByEmail(email);
   if (!user) {
     return {
       success: false,
@@ -141,9 +227,9 @@ export function login(
     };
   }
 
-  // Verify password (in production, use bcrypt/argon2)
-  const expectedHash = `hashed:${password}`;
-  if (user.password_hash !== expectedHash) {
+  // Verify password
+  const passwordHash = await checkUserPassword(user.id, password);
+  if (passwordHash === null) {
     return {
       success: false,
       error: new ArenaError(
@@ -153,36 +239,123 @@ export function login(
     };
   }
 
-  // Update last seen
-  store.updateUser(user.id, { last_seen_at: new Date() });
+  // Update last seen, upgrading placeholder or outdated hashes
+  if (needsRehash(passwordHash)) {
+    await store.replacePasswordHash(user.id, passwordHash, await hashPassword(password));
+  }
+  const updatedUser = (await store.updateUser(user.id, { last_seen_at: new Date() })) || user;
 
-  // Set as current user
-  setCurrentUser(user);
+  return startSession(updatedUser);
+}
 
-  // Return user without password
-  const { password_hash: _, ...userWithoutPassword } = user;
-  return {
-    success: true,
-    data: userWithoutPassword,
-  };
+/**
+ * Restore the session persisted by a previous app run
+ * Refreshes an expired access token. Returns null when there is no usable session.
+ */
+export async function restoreSession(): Promise<Result<User | null, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const stored = await loadStoredSession();
+    if (!stored) {
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    // Always rotate on restore: it checks the session was not revoked meanwhile
+    const refreshResult = await refreshSession(stored.refresh_token);
+    if (!refreshResult.success) {
+      await clearCurrentSession();
+      setCurrentUser(null);
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    const user = await store.getUserById(refreshResult.data.user_id);
+    if (!user) {
+      await revokeSession(refreshResult.data.refresh_token);
+      setCurrentUser(null);
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    setCurrentUser(user);
+    return {
+      success: true,
+      data: user,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to restore session',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
 }
 
 /**
  * Logout current user
+ * Revokes this device's session.
  */
-export function logout(): void {
+export async function logout(): Promise<void> {
+  const session = getCurrentSession();
   setCurrentUser(null);
+
+  if (session) {
+    const result = await revokeSession(session.refresh_token);
+    if (!result.success) {
+      console.error('Error revoking session:', result.error.message);
+      await clearCurrentSession();
+    }
+  }
+}
+
+/**
+ * Logout current user on every device
+ * Returns the number of sessions revoked.
+ */
+export async function logoutEverywhere(): Promise<Result<number, ArenaError>> {
+  try {
+    requireAuth();
+    const result = await revokeAllSessions();
+    if (result.success) {
+      setCurrentUser(null);
+    }
+    return result;
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to log out everywhere',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
 }
 
 /**
  * Check if user is authenticated
  */
 export function isAuthenticated(): boolean {
-  return currentUser !== null;
+  try {
+    requireAuth();
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
  * Require authentication (throws if not authenticated)
+ * The current user must hold an unexpired access token signed for them.
  */
 export function requireAuth(): User {
   if (!currentUser) {
@@ -191,6 +364,26 @@ export function requireAuth(): User {
       ErrorCodes.UNAUTHORIZED
     );
   }
+
+  const session = getCurrentSession();
+  if (!session) {
+    throw new ArenaError(
+      'Authentication required',
+      ErrorCodes.UNAUTHORIZED
+    );
+  }
+
+  const claimsResult = verifyToken(session.access_token, 'access');
+  if (!claimsResult.success) {
+    throw claimsResult.error;
+  }
+
+  if (claimsResult.data.sub !== currentUser.id) {
+    throw new ArenaError(
+      'Session does not belong to the current user',
+      ErrorCodes.INVALID_TOKEN
+    );
+  }
+
   return currentUser;
 }
-
@@ -0,0 +1,22 @@
+/**
+ * Social Arena - Backend Selection
+ *
+ * Picks the StateStore implementation the domain layer runs against.
+ * Call initializeStateStore() once at app startup.
+ */
+
+import { StateStore, store, setStateStore } from './store';
+import { SupabaseStateStore } from './supabaseStore';
+import { supabase } from '../lib/supabase';
+
+export type StateStoreBackend = 'memory' | 'supabase';
+
+/**
+ * Select and activate the persistence backend
+ */
+export function initializeStateStore(backend: StateStoreBackend): StateStore {
+  const next: StateStore =
+    backend === 'supabase' ? new SupabaseStateStore(supabase) : store;
+  setStateStore(next);
+  return next;
+}
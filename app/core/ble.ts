@@ -0,0 +1,369 @@
+/**
+ * Social Arena - BLE Proximity
+ *
+ * Prey broadcast a BLE beacon while an arena is active and hunters'
+ * devices report the signal strength they hear. Readings are logged per
+ * arena and turned into distance estimates with a log-distance path-loss
+ * model that can be calibrated for the devices in use.
+ */
+
+import {
+  BLEProximityLog,
+  BLEProximityUpdate,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from './types';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BLE_RSSI_MIN = -127;
+export const BLE_RSSI_MAX = 0;
+export const BLE_SMOOTHING_WINDOW_MS = 3000; // Readings combined into one estimate
+export const BLE_ESTIMATE_MAX_AGE_MS = 5000; // Estimates older than this are dropped
+export const BLE_MAX_CLOCK_SKEW_MS = 10000; // How far ahead of us a scanner's clock may be
+
+export interface BlePathLossModel {
+  tx_power_dbm: number; // RSSI heard at 1 meter
+  path_loss_exponent: number; // 2 in open air, higher indoors or through bodies
+}
+
+export interface BleCalibrationSample {
+  rssi: number;
+  distance_meters: number;
+}
+
+export interface BleDistanceEstimate {
+  arena_id: string;
+  scanner_user_id: string; // Hunter
+  broadcaster_user_id: string; // Prey
+  rssi: number; // Median of the readings in the smoothing window
+  distance_meters: number;
+  sample_count: number;
+  recorded_at: Date; // Latest reading
+}
+
+export const DEFAULT_BLE_PATH_LOSS_MODEL: BlePathLossModel = {
+  tx_power_dbm: -59,
+  path_loss_exponent: 2,
+};
+
+// ============================================================================
+// PATH-LOSS MODEL
+// ============================================================================
+
+let pathLossModel: BlePathLossModel = DEFAULT_BLE_PATH_LOSS_MODEL;
+
+/**
+ * Get the model RSSI readings are converted with
+ */
+export function getBlePathLossModel(): BlePathLossModel {
+  return pathLossModel;
+}
+
+/**
+ * Replace the path-loss model (e.g. with the result of calibrateBlePathLoss)
+ */
+export function setBlePathLossModel(model: BlePathLossModel): Result<BlePathLossModel, ArenaError> {
+  if (
+    !Number.isFinite(model.tx_power_dbm) ||
+    model.tx_power_dbm < BLE_RSSI_MIN ||
+    model.tx_power_dbm > BLE_RSSI_MAX
+  ) {
+    return {
+      success: false,
+      error: new ArenaError(
+        `Transmit power must be between ${BLE_RSSI_MIN} and ${BLE_RSSI_MAX} dBm`,
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  if (!Number.isFinite(model.path_loss_exponent) || model.path_loss_exponent <= 0) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Path-loss exponent must be positive',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  pathLossModel = { ...model };
+  return {
+    success: true,
+    data: pathLossModel,
+  };
+}
+
+/**
+ * Estimate distance in meters from an RSSI reading
+ * d = 10 ^ ((txPower - rssi) / (10 * n))
+ */
+export function estimateBleDistance(
+  rssi: number,
+  model: BlePathLossModel = pathLossModel
+): number {
+  const distance = Math.pow(10, (model.tx_power_dbm - rssi) / (10 * model.path_loss_exponent));
+  return Math.round(distance * 100) / 100;
+}
+
+/**
+ * Fit a path-loss model to readings taken at known distances
+ * Least squares on rssi = txPower - 10 * n * log10(d). Needs at least two distances.
+ */
+export function calibrateBlePathLoss(
+  samples: BleCalibrationSample[]
+): Result<BlePathLossModel, ArenaError> {
+  const valid = samples.filter(
+    s => Number.isFinite(s.rssi) && Number.isFinite(s.distance_meters) && s.distance_meters > 0
+  );
+  const distances = new Set(valid.map(s => s.distance_meters));
+  if (distances.size < 2) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Calibration needs readings from at least two distances',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  const xs = valid.map(s => Math.log10(s.distance_meters));
+  const ys = valid.map(s => s.rssi);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) * (xs[i] - meanX);
+  }
+
+  const slope = covariance / variance;
+  const model: BlePathLossModel = {
+    tx_power_dbm: meanY - slope * meanX,
+    path_loss_exponent: -slope / 10,
+  };
+
+  if (!(model.path_loss_exponent > 0)) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Signal does not weaken with distance in these readings',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: model,
+  };
+}
+
+// ============================================================================
+// INGESTION
+// ============================================================================
+
+/**
+ * Record a hunter's scan of a prey beacon
+ * The scanner must be the current user and a hunter, the broadcaster a
+ * broadcasting prey, both still in the game of an active arena.
+ */
+export async function reportBleProximity(
+  update: BLEProximityUpdate
+): Promise<Result<BLEProximityLog, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+    const now = Date.now();
+
+    if (
+      !Number.isFinite(update.rssi) ||
+      update.rssi < BLE_RSSI_MIN ||
+      update.rssi > BLE_RSSI_MAX
+    ) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `RSSI must be between ${BLE_RSSI_MIN} and ${BLE_RSSI_MAX}`,
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    const recordedAt = update.timestamp;
+    if (
+      !(recordedAt instanceof Date) ||
+      isNaN(recordedAt.getTime()) ||
+      recordedAt.getTime() > now + BLE_MAX_CLOCK_SKEW_MS
+    ) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Invalid reading timestamp',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    if (update.scanner_user_id !== userId) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'You can only report your own scans',
+          ErrorCodes.UNAUTHORIZED
+        ),
+      };
+    }
+
+    const arena = await store.getArenaById(update.arena_id);
+    if (!arena) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena not found',
+          ErrorCodes.ARENA_NOT_FOUND
+        ),
+      };
+    }
+
+    if (arena.status !== 'active') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena is not active',
+          ErrorCodes.INVALID_STATE_TRANSITION
+        ),
+      };
+    }
+
+    const scanner = await store.getArenaParticipant(arena.id, update.scanner_user_id);
+    if (!scanner || scanner.role !== 'hunter' || scanner.status !== 'joined') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Scanner must be a hunter in this arena',
+          ErrorCodes.INVALID_ROLES
+        ),
+      };
+    }
+
+    const broadcaster = await store.getArenaParticipant(arena.id, update.broadcaster_user_id);
+    if (
+      !broadcaster ||
+      broadcaster.role !== 'prey' ||
+      broadcaster.status !== 'joined' ||
+      !broadcaster.is_ble_broadcasting
+    ) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Broadcaster must be a prey broadcasting in this arena',
+          ErrorCodes.INVALID_ROLES
+        ),
+      };
+    }
+
+    const log = await store.addBleProximityLog({
+      arena_id: arena.id,
+      broadcaster_user_id: broadcaster.user_id,
+      scanner_user_id: scanner.user_id,
+      rssi: update.rssi,
+      distance_estimate_meters: estimateBleDistance(update.rssi),
+      broadcaster_latitude: broadcaster.last_latitude,
+      broadcaster_longitude: broadcaster.last_longitude,
+      scanner_latitude: scanner.last_latitude,
+      scanner_longitude: scanner.last_longitude,
+      recorded_at: recordedAt,
+    });
+
+    return {
+      success: true,
+      data: log,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to report BLE reading',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// ESTIMATES
+// ============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Latest distance estimate per hunter/prey pair from a set of logs
+ * Each estimate uses the median RSSI of the pair's readings within
+ * BLE_SMOOTHING_WINDOW_MS of its latest one; stale pairs are left out.
+ */
+export function summarizeBleReadings(
+  logs: BLEProximityLog[],
+  now: number,
+  model: BlePathLossModel = pathLossModel
+): BleDistanceEstimate[] {
+  const byPair: Map<string, BLEProximityLog[]> = new Map(); // key: `${scannerId}:${broadcasterId}`
+  for (const log of logs) {
+    const key = `${log.scanner_user_id}:${log.broadcaster_user_id}`;
+    const pairLogs = byPair.get(key) || [];
+    pairLogs.push(log);
+    byPair.set(key, pairLogs);
+  }
+
+  const estimates: BleDistanceEstimate[] = [];
+  for (const pairLogs of byPair.values()) {
+    const latest = pairLogs.reduce((a, b) =>
+      b.recorded_at.getTime() > a.recorded_at.getTime() ? b : a
+    );
+    const latestTime = latest.recorded_at.getTime();
+    if (now - latestTime > BLE_ESTIMATE_MAX_AGE_MS) {
+      continue;
+    }
+
+    const recent = pairLogs.filter(
+      log => latestTime - log.recorded_at.getTime() <= BLE_SMOOTHING_WINDOW_MS
+    );
+    const rssi = median(recent.map(log => log.rssi));
+
+    estimates.push({
+      arena_id: latest.arena_id,
+      scanner_user_id: latest.scanner_user_id,
+      broadcaster_user_id: latest.broadcaster_user_id,
+      rssi,
+      distance_meters: estimateBleDistance(rssi, model),
+      sample_count: recent.length,
+      recorded_at: latest.recorded_at,
+    });
+  }
+
+  return estimates;
+}
+
+/**
+ * Load the current distance estimates for an arena from its logs
+ */
+export async function getLatestBleEstimates(
+  arenaId: string,
+  now: number = Date.now()
+): Promise<BleDistanceEstimate[]> {
+  const since = new Date(now - BLE_ESTIMATE_MAX_AGE_MS - BLE_SMOOTHING_WINDOW_MS);
+  const logs = await getStateStore().getBleProximityLogs(arenaId, since);
+  return summarizeBleReadings(logs, now);
+}
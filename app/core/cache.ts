@@ -9,6 +9,7 @@
 
 import { store } from './store';
 import { setCurrentUser } from './auth';
+import { clearCurrentSession } from './sessions';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const DEVICE_ID_KEY = '@social_arena:device_id';
@@ -30,6 +31,7 @@ export async function clearAllCache(): Promise<void> {
     
     // Clear current user session
     setCurrentUser(null);
+    await clearCurrentSession();
     
     console.log('All cached data cleared');
   } catch (error) {
@@ -0,0 +1,156 @@
+/**
+ * Social Arena - Contact Model
+ *
+ * Decides when a hunter/prey pair has held capture range. A pair enters
+ * range at the capture distance but only leaves it past a wider exit
+ * distance, brief dropouts are tolerated, and hold time is measured
+ * between location sample timestamps rather than on the wall clock.
+ * Everything here is pure, so sample sequences can be replayed in scripts.
+ */
+
+import { getCaptureConfidence } from './fusion';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CAPTURE_EXIT_MARGIN_METERS = 1.5; // Exit distance = capture distance + margin
+export const CAPTURE_DROPOUT_MS = 2000; // Out-of-range or missing samples tolerated during a hold
+export const CAPTURE_MIN_SAMPLES = 3; // In-range samples a hold needs to complete
+
+export interface ContactParams {
+  enter_distance_meters: number;
+  exit_distance_meters: number;
+  confidence_threshold: number;
+  hold_ms: number;
+  dropout_ms: number;
+  min_samples: number;
+}
+
+export interface ContactSample {
+  distance_meters: number;
+  sigma_meters: number; // 0 for an exact distance
+  sampled_at: number; // Timestamp of the newest location fix or BLE reading behind it
+}
+
+export interface ContactState {
+  hold_started_at: number | null; // Sample time the pair entered capture range
+  in_range_samples: number; // Samples in range since the hold started
+  last_in_range_at: number | null;
+  dropout_started_at: number | null; // First out-of-range sample during a hold
+  last_sample_at: number | null;
+  last_distance: number;
+}
+
+export interface ContactStep {
+  state: ContactState;
+  held: boolean; // The hold completed on this sample
+}
+
+export function createContactState(): ContactState {
+  return {
+    hold_started_at: null,
+    in_range_samples: 0,
+    last_in_range_at: null,
+    dropout_started_at: null,
+    last_sample_at: null,
+    last_distance: Infinity,
+  };
+}
+
+function resetHold(state: ContactState): void {
+  state.hold_started_at = null;
+  state.in_range_samples = 0;
+  state.last_in_range_at = null;
+  state.dropout_started_at = null;
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Check whether a sample is in range
+ * Outside a hold the pair must be confidently within the enter distance;
+ * during one it only has to stay confidently within the exit distance.
+ */
+export function isSampleInRange(
+  sample: ContactSample,
+  holding: boolean,
+  params: ContactParams
+): boolean {
+  const threshold = holding ? params.exit_distance_meters : params.enter_distance_meters;
+  return (
+    getCaptureConfidence(sample.distance_meters, sample.sigma_meters, threshold) >=
+    params.confidence_threshold
+  );
+}
+
+/**
+ * Apply one sample to a pair's contact state
+ * Samples no newer than the last one carry no new information and are ignored.
+ */
+export function stepContact(
+  previous: ContactState,
+  sample: ContactSample,
+  params: ContactParams
+): ContactStep {
+  if (previous.last_sample_at !== null && sample.sampled_at <= previous.last_sample_at) {
+    return { state: previous, held: false };
+  }
+
+  const state: ContactState = {
+    ...previous,
+    last_sample_at: sample.sampled_at,
+    last_distance: sample.distance_meters,
+  };
+
+  // A gap longer than the dropout tolerance means we lost track of the pair
+  if (
+    state.last_in_range_at !== null &&
+    sample.sampled_at - state.last_in_range_at > params.dropout_ms
+  ) {
+    resetHold(state);
+  }
+
+  const holding = state.hold_started_at !== null;
+  if (!isSampleInRange(sample, holding, params)) {
+    if (holding && state.dropout_started_at === null) {
+      state.dropout_started_at = sample.sampled_at;
+    }
+    return { state, held: false };
+  }
+
+  if (!holding) {
+    state.hold_started_at = sample.sampled_at;
+  }
+  state.in_range_samples++;
+  state.last_in_range_at = sample.sampled_at;
+  state.dropout_started_at = null;
+
+  return {
+    state,
+    held:
+      state.in_range_samples >= params.min_samples &&
+      sample.sampled_at - state.hold_started_at! >= params.hold_ms,
+  };
+}
+
+/**
+ * Replay a sequence of samples for one pair
+ * Returns the state after each sample, e.g. to tune the parameters offline.
+ */
+export function replayContact(
+  samples: ContactSample[],
+  params: ContactParams,
+  initial: ContactState = createContactState()
+): ContactStep[] {
+  const steps: ContactStep[] = [];
+  let state = initial;
+  for (const sample of samples) {
+    const step = stepContact(state, sample, params);
+    steps.push(step);
+    state = step.state;
+  }
+  return steps;
+}
@@ -0,0 +1,174 @@
+/**
+ * Social Arena - Arena Event Stream
+ *
+ * In-process publish/subscribe bus for arena state changes.
+ * Domain functions publish typed events; screens subscribe per arena
+ * instead of polling. The feed can later be bridged to Supabase Realtime.
+ */
+
+import { Arena, ArenaParticipant, ParticipantRole } from './types';
+
+// ============================================================================
+// EVENT TYPES
+// ============================================================================
+
+interface ArenaEventBase {
+  arena_id: string;
+  timestamp: Date;
+}
+
+export interface ParticipantJoinedEvent extends ArenaEventBase {
+  type: 'participant_joined';
+  participant: ArenaParticipant;
+}
+
+export interface ParticipantLeftEvent extends ArenaEventBase {
+  type: 'participant_left';
+  participant: ArenaParticipant;
+}
+
+export interface RoleAssignedEvent extends ArenaEventBase {
+  type: 'role_assigned';
+  participant: ArenaParticipant;
+  previous_role: ParticipantRole;
+}
+
+export interface ArenaStartedEvent extends ArenaEventBase {
+  type: 'arena_started';
+  arena: Arena;
+}
+
+export interface PreyCapturedEvent extends ArenaEventBase {
+  type: 'prey_captured';
+  prey_user_id: string;
+  hunter_user_id: string;
+}
+
+export interface PreyInfectedEvent extends ArenaEventBase {
+  type: 'prey_infected';
+  prey_user_id: string;
+  hunter_user_id: string;
+}
+
+export interface ArenaEndedEvent extends ArenaEventBase {
+  type: 'arena_ended';
+  arena: Arena;
+}
+
+export interface LocationUpdatedEvent extends ArenaEventBase {
+  type: 'location_updated';
+  user_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number;
+}
+
+// Low-level change notifications published by the state store
+export interface ArenaUpdatedEvent extends ArenaEventBase {
+  type: 'arena_updated';
+  arena: Arena;
+}
+
+export interface ParticipantUpdatedEvent extends ArenaEventBase {
+  type: 'participant_updated';
+  participant: ArenaParticipant;
+}
+
+export type ArenaEvent =
+  | ParticipantJoinedEvent
+  | ParticipantLeftEvent
+  | RoleAssignedEvent
+  | ArenaStartedEvent
+  | PreyCapturedEvent
+  | PreyInfectedEvent
+  | ArenaEndedEvent
+  | LocationUpdatedEvent
+  | ArenaUpdatedEvent
+  | ParticipantUpdatedEvent;
+
+export type ArenaEventType = ArenaEvent['type'];
+
+export type ArenaEventHandler = (event: ArenaEvent) => void;
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+const arenaSubscribers: Map<string, Set<ArenaEventHandler>> = new Map();
+
+/**
+ * Subscribe to all events for an arena
+ * Returns a function that removes the subscription
+ */
+export function subscribeToArena(
+  arenaId: string,
+  handler: ArenaEventHandler
+): () => void {
+  let handlers = arenaSubscribers.get(arenaId);
+  if (!handlers) {
+    handlers = new Set();
+    arenaSubscribers.set(arenaId, handlers);
+  }
+  handlers.add(handler);
+
+  return () => unsubscribeFromArena(arenaId, handler);
+}
+
+/**
+ * Remove a handler previously passed to subscribeToArena
+ */
+export function unsubscribeFromArena(
+  arenaId: string,
+  handler: ArenaEventHandler
+): void {
+  const handlers = arenaSubscribers.get(arenaId);
+  if (!handlers) {
+    return;
+  }
+
+  handlers.delete(handler);
+  if (handlers.size === 0) {
+    arenaSubscribers.delete(arenaId);
+  }
+}
+
+/**
+ * Copy a participant without its last known location
+ * Used wherever a participant row reaches someone who may not see it.
+ */
+export function withoutLocation(participant: ArenaParticipant): ArenaParticipant {
+  return {
+    ...participant,
+    last_latitude: undefined,
+    last_longitude: undefined,
+    last_location_updated_at: undefined,
+    last_location_accuracy_meters: undefined,
+    last_location_source: undefined,
+  };
+}
+
+/**
+ * Deliver an event to every subscriber of its arena
+ * A failing handler never blocks the others or the publisher.
+ * Participant payloads never carry coordinates; positions are only
+ * published as location_updated, which hides specter hunters.
+ */
+export function publishArenaEvent(event: ArenaEvent): void {
+  const handlers = arenaSubscribers.get(event.arena_id);
+  if (!handlers) {
+    return;
+  }
+
+  if ('participant' in event) {
+    event = { ...event, participant: withoutLocation(event.participant) };
+  }
+
+  // Copy so handlers can unsubscribe while being notified
+  for (const handler of Array.from(handlers)) {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`Error in ${event.type} handler:`, error);
+    }
+  }
+}
@@ -35,7 +35,7 @@ import {
 // EXAMPLE 1: Complete Game Flow
 // ============================================================================
 
-export function exampleCompleteGameFlow() {
+export async function exampleCompleteGameFlow() {
   console.log('=== Example 1: Complete Game Flow ===\n');
 
   // Clear store for clean start
@@ -43,16 +43,16 @@ export function exampleCompleteGameFlow() {
 
   // 1. Signup user
   console.log('1. Signing up user...');
-  const signupResult = signup('alice@example.com', 'password123', 'alice');
+  const signupResult = await signup('alice@example.com', 'password123', 'alice');
   if (!signupResult.success) {
     console.error('Signup failed:', signupResult.error.message);
     return;
   }
-  console.log('✓ User signed up:', signupResult.data.username);
+  console.log('✓ User signed up:', signupResult.data.user.username);
 
   // 2. Create room
   console.log('\n2. Creating room...');
-  const roomResult = createRoom('Hunters Club', 'A room for hunters');
+  const roomResult = await createRoom('Hunters Club', 'A room for hunters');
   if (!roomResult.success) {
     console.error('Create room failed:', roomResult.error.message);
     return;
@@ -61,7 +61,7 @@ export function exampleCompleteGameFlow() {
 
   // 3. Create arena
   console.log('\n3. Creating arena...');
-  const arenaResult = createArena(roomResult.data.id, 'predators', 12);
+  const arenaResult = await createArena(roomResult.data.id, 'predators', 12);
   if (!arenaResult.success) {
     console.error('Create arena failed:', arenaResult.error.message);
     return;
@@ -70,7 +70,7 @@ export function exampleCompleteGameFlow() {
 
   // 4. Join as prey
   console.log('\n4. Joining as prey...');
-  const joinPreyResult = joinArena(arenaResult.data.id, 'prey');
+  const joinPreyResult = await joinArena(arenaResult.data.id, 'prey');
   if (!joinPreyResult.success) {
     console.error('Join failed:', joinPreyResult.error.message);
     return;
@@ -79,28 +79,28 @@ export function exampleCompleteGameFlow() {
 
   // 5. Signup and join as hunters
   console.log('\n5. Adding hunters...');
-  const hunter1Result = signup('bob@example.com', 'password123', 'bob');
+  const hunter1Result = await signup('bob@example.com', 'password123', 'bob');
   if (!hunter1Result.success) {
     console.error('Signup failed:', hunter1Result.error.message);
     return;
   }
-  login('bob@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  const joinHunter1Result = joinArena(arenaResult.data.id, 'hunter');
+  await login('bob@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  const joinHunter1Result = await joinArena(arenaResult.data.id, 'hunter');
   if (!joinHunter1Result.success) {
     console.error('Join failed:', joinHunter1Result.error.message);
     return;
   }
   console.log('✓ Hunter 1 joined');
 
-  const hunter2Result = signup('charlie@example.com', 'password123', 'charlie');
+  const hunter2Result = await signup('charlie@example.com', 'password123', 'charlie');
   if (!hunter2Result.success) {
     console.error('Signup failed:', hunter2Result.error.message);
     return;
   }
-  login('charlie@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  const joinHunter2Result = joinArena(arenaResult.data.id, 'hunter');
+  await login('charlie@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  const joinHunter2Result = await joinArena(arenaResult.data.id, 'hunter');
   if (!joinHunter2Result.success) {
     console.error('Join failed:', joinHunter2Result.error.message);
     return;
@@ -109,8 +109,8 @@ export function exampleCompleteGameFlow() {
 
   // 6. Switch back to host and start arena
   console.log('\n6. Starting arena...');
-  login('alice@example.com', 'password123');
-  const startResult = startArena(arenaResult.data.id);
+  await login('alice@example.com', 'password123');
+  const startResult = await startArena(arenaResult.data.id);
   if (!startResult.success) {
     console.error('Start failed:', startResult.error.message);
     return;
@@ -120,7 +120,7 @@ export function exampleCompleteGameFlow() {
 
   // 7. Get arena state
   console.log('\n7. Getting arena state...');
-  const arenaStateResult = getArenaWithParticipants(arenaResult.data.id);
+  const arenaStateResult = await getArenaWithParticipants(arenaResult.data.id);
   if (arenaStateResult.success) {
     console.log('✓ Arena state:');
     console.log('  Status:', arenaStateResult.data.status);
@@ -132,7 +132,7 @@ export function exampleCompleteGameFlow() {
 
   // 8. End arena
   console.log('\n8. Ending arena...');
-  const endResult = endArena(arenaResult.data.id, 'host_ended');
+  const endResult = await endArena(arenaResult.data.id, 'host_ended');
   if (!endResult.success) {
     console.error('End failed:', endResult.error.message);
     return;
@@ -146,38 +146,38 @@ export function exampleCompleteGameFlow() {
 // EXAMPLE 2: Invariant Enforcement
 // ============================================================================
 
-export function exampleInvariantEnforcement() {
+export async function exampleInvariantEnforcement() {
   console.log('\n\n=== Example 2: Invariant Enforcement ===\n');
 
   store.clear();
 
   // Setup: Create user, room, and arena
-  signup('user1@example.com', 'password123', 'user1');
-  const roomResult = createRoom('Test Room');
+  await signup('user1@example.com', 'password123', 'user1');
+  const roomResult = await createRoom('Test Room');
   if (!roomResult.success) return;
   
-  const arena1Result = createArena(roomResult.data.id);
+  const arena1Result = await createArena(roomResult.data.id);
   if (!arena1Result.success) return;
 
   // Test Invariant 1: Cannot create second active arena in same room
   console.log('Test: Cannot create second arena in room with active arena...');
   
   // Start first arena
-  joinArena(arena1Result.data.id, 'prey');
-  signup('user2@example.com', 'password123', 'user2');
-  login('user2@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  joinArena(arena1Result.data.id, 'hunter');
-  signup('user3@example.com', 'password123', 'user3');
-  login('user3@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  joinArena(arena1Result.data.id, 'hunter');
+  await joinArena(arena1Result.data.id, 'prey');
+  await signup('user2@example.com', 'password123', 'user2');
+  await login('user2@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  await joinArena(arena1Result.data.id, 'hunter');
+  await signup('user3@example.com', 'password123', 'user3');
+  await login('user3@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  await joinArena(arena1Result.data.id, 'hunter');
   
-  login('user1@example.com', 'password123');
-  startArena(arena1Result.data.id);
+  await login('user1@example.com', 'password123');
+  await startArena(arena1Result.data.id);
 
   // Try to create second arena
-  const arena2Result = createArena(roomResult.data.id);
+  const arena2Result = await createArena(roomResult.data.id);
   if (!arena2Result.success) {
     console.log('✓ Invariant 1 enforced:', arena2Result.error.message);
   } else {
@@ -188,17 +188,17 @@ export function exampleInvariantEnforcement() {
   console.log('\nTest: Cannot join second arena while in active arena...');
   
   // Create second arena in different room
-  signup('user4@example.com', 'password123', 'user4');
-  const room2Result = createRoom('Test Room 2');
+  await signup('user4@example.com', 'password123', 'user4');
+  const room2Result = await createRoom('Test Room 2');
   if (!room2Result.success) return;
   
-  const arena2Result2 = createArena(room2Result.data.id);
+  const arena2Result2 = await createArena(room2Result.data.id);
   if (!arena2Result2.success) return;
 
   // User 2 is in active arena 1, try to join arena 2
-  login('user2@example.com', 'password123');
-  joinRoom(room2Result.data.id);
-  const joinResult = joinArena(arena2Result2.data.id);
+  await login('user2@example.com', 'password123');
+  await joinRoom(room2Result.data.id);
+  const joinResult = await joinArena(arena2Result2.data.id);
   if (!joinResult.success) {
     console.log('✓ Invariant 2 enforced:', joinResult.error.message);
   } else {
@@ -207,10 +207,10 @@ export function exampleInvariantEnforcement() {
 
   // Test Invariant 3: Cannot join active arena
   console.log('\nTest: Cannot join active arena...');
-  signup('user5@example.com', 'password123', 'user5');
-  login('user5@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  const joinActiveResult = joinArena(arena1Result.data.id);
+  await signup('user5@example.com', 'password123', 'user5');
+  await login('user5@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  const joinActiveResult = await joinArena(arena1Result.data.id);
   if (!joinActiveResult.success) {
     console.log('✓ Invariant 3 enforced:', joinActiveResult.error.message);
   } else {
@@ -219,9 +219,9 @@ export function exampleInvariantEnforcement() {
 
   // Test Invariant 4: Cannot rejoin after leaving active arena
   console.log('\nTest: Cannot rejoin after leaving active arena...');
-  login('user2@example.com', 'password123');
-  leaveArena(arena1Result.data.id);
-  const rejoinResult = joinArena(arena1Result.data.id);
+  await login('user2@example.com', 'password123');
+  await leaveArena(arena1Result.data.id);
+  const rejoinResult = await joinArena(arena1Result.data.id);
   if (!rejoinResult.success) {
     console.log('✓ Invariant 4 enforced:', rejoinResult.error.message);
   } else {
@@ -233,25 +233,25 @@ export function exampleInvariantEnforcement() {
 // EXAMPLE 3: Role Assignment
 // ============================================================================
 
-export function exampleRoleAssignment() {
+export async function exampleRoleAssignment() {
   console.log('\n\n=== Example 3: Role Assignment ===\n');
 
   store.clear();
 
   // Setup
-  signup('host@example.com', 'password123', 'host');
-  const roomResult = createRoom('Role Test Room');
+  await signup('host@example.com', 'password123', 'host');
+  const roomResult = await createRoom('Role Test Room');
   if (!roomResult.success) return;
   
-  const arenaResult = createArena(roomResult.data.id);
+  const arenaResult = await createArena(roomResult.data.id);
   if (!arenaResult.success) return;
 
   // Join as spectator
-  joinArena(arenaResult.data.id, 'spectator');
+  await joinArena(arenaResult.data.id, 'spectator');
   console.log('✓ Joined as spectator');
 
   // Assign self as prey (host can assign roles)
-  const assignPreyResult = assignRole(arenaResult.data.id, getCurrentUser()!.id, 'prey');
+  const assignPreyResult = await assignRole(arenaResult.data.id, getCurrentUser()!.id, 'prey');
   if (assignPreyResult.success) {
     console.log('✓ Assigned self as prey');
   } else {
@@ -259,21 +259,21 @@ export function exampleRoleAssignment() {
   }
 
   // Add hunters
-  signup('hunter1@example.com', 'password123', 'hunter1');
-  login('hunter1@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  joinArena(arenaResult.data.id, 'hunter');
+  await signup('hunter1@example.com', 'password123', 'hunter1');
+  await login('hunter1@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  await joinArena(arenaResult.data.id, 'hunter');
   console.log('✓ Hunter 1 joined');
 
-  signup('hunter2@example.com', 'password123', 'hunter2');
-  login('hunter2@example.com', 'password123');
-  joinRoom(roomResult.data.id);
-  joinArena(arenaResult.data.id, 'hunter');
+  await signup('hunter2@example.com', 'password123', 'hunter2');
+  await login('hunter2@example.com', 'password123');
+  await joinRoom(roomResult.data.id);
+  await joinArena(arenaResult.data.id, 'hunter');
   console.log('✓ Hunter 2 joined');
 
   // Switch back to host and start
-  login('host@example.com', 'password123');
-  const startResult = startArena(arenaResult.data.id);
+  await login('host@example.com', 'password123');
+  const startResult = await startArena(arenaResult.data.id);
   if (startResult.success) {
     console.log('✓ Arena started with valid roles');
   } else {
@@ -286,8 +286,10 @@ export function exampleRoleAssignment() {
 // ============================================================================
 
 if (require.main === module) {
-  exampleCompleteGameFlow();
-  exampleInvariantEnforcement();
-  exampleRoleAssignment();
+  (async () => {
+    await exampleCompleteGameFlow();
+    await exampleInvariantEnforcement();
+    await exampleRoleAssignment();
+  })();
 }
 
@@ -0,0 +1,183 @@
+/**
+ * Social Arena - Proximity Fusion
+ *
+ * Combines the GPS distance between two players with recent BLE
+ * estimates into one distance and a confidence that the pair is within
+ * capture range. Each input carries an uncertainty (sigma, in meters);
+ * inputs are weighted by inverse variance, so a tight BLE reading
+ * outweighs a loose GPS fix and vice versa.
+ */
+
+import type { BleDistanceEstimate } from './ble';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BLE_RSSI_NOISE_DB = 6; // Typical spread of a single RSSI reading
+export const DEFAULT_GPS_SIGMA_METERS = 20; // Assumed for fixes that report no accuracy
+
+export interface GpsProximityInput {
+  distance_meters: number;
+  sigma_meters: number; // Combined accuracy of both fixes
+  sampled_at: number; // Newer of the two fixes
+  hunter_accuracy_meters?: number;
+  prey_accuracy_meters?: number;
+}
+
+export interface BleProximityInput {
+  distance_meters: number;
+  sigma_meters: number;
+  rssi: number;
+  sample_count: number;
+  sampled_at: number; // Latest reading
+  age_ms: number;
+}
+
+export interface FusedProximity {
+  hunter_user_id: string;
+  prey_user_id: string;
+  distance_meters: number;
+  sigma_meters: number;
+  capture_confidence: number; // Probability the pair is within capture distance
+  sampled_at: number; // Newest input
+  source: 'gps' | 'ble' | 'fused';
+  gps?: GpsProximityInput;
+  ble?: BleProximityInput;
+}
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+/**
+ * Accuracy of one fix, falling back to the default when none was reported
+ */
+function getFixSigma(accuracyMeters?: number): number {
+  return accuracyMeters !== undefined && accuracyMeters > 0
+    ? accuracyMeters
+    : DEFAULT_GPS_SIGMA_METERS;
+}
+
+/**
+ * GPS distance between two fixes with its uncertainty
+ * Fixes without a usable accuracy get DEFAULT_GPS_SIGMA_METERS, never an exact reading.
+ */
+export function getGpsInput(
+  distanceMeters: number,
+  sampledAt: number,
+  hunterAccuracy?: number,
+  preyAccuracy?: number
+): GpsProximityInput {
+  return {
+    distance_meters: distanceMeters,
+    sigma_meters: Math.hypot(getFixSigma(hunterAccuracy), getFixSigma(preyAccuracy)),
+    sampled_at: sampledAt,
+    hunter_accuracy_meters: hunterAccuracy,
+    prey_accuracy_meters: preyAccuracy,
+  };
+}
+
+/**
+ * BLE estimate with its uncertainty
+ * RSSI noise is multiplicative in distance; the median of several readings narrows it.
+ */
+export function getBleInput(
+  estimate: BleDistanceEstimate,
+  now: number,
+  pathLossExponent: number
+): BleProximityInput {
+  const spreadFactor = Math.pow(10, BLE_RSSI_NOISE_DB / (10 * pathLossExponent)) - 1;
+  return {
+    distance_meters: estimate.distance_meters,
+    sigma_meters: (estimate.distance_meters * spreadFactor) / Math.sqrt(estimate.sample_count),
+    rssi: estimate.rssi,
+    sample_count: estimate.sample_count,
+    sampled_at: estimate.recorded_at.getTime(),
+    age_ms: Math.max(0, now - estimate.recorded_at.getTime()),
+  };
+}
+
+// ============================================================================
+// FUSION
+// ============================================================================
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Probability that the true distance is within capture range
+ * An exact reading (sigma 0) is simply in or out of range.
+ */
+export function getCaptureConfidence(
+  distanceMeters: number,
+  sigmaMeters: number,
+  captureDistanceMeters: number
+): number {
+  if (sigmaMeters <= 0) {
+    return distanceMeters <= captureDistanceMeters ? 1 : 0;
+  }
+  return normalCdf((captureDistanceMeters - distanceMeters) / sigmaMeters);
+}
+
+/**
+ * Fuse GPS and BLE inputs into one proximity estimate
+ * Returns undefined when neither input is available.
+ */
+export function fuseProximity(
+  hunterId: string,
+  preyId: string,
+  gps: GpsProximityInput | undefined,
+  ble: BleProximityInput | undefined,
+  captureDistanceMeters: number
+): FusedProximity | undefined {
+  const inputs = [gps, ble].filter(
+    (input): input is GpsProximityInput | BleProximityInput => input !== undefined
+  );
+  if (inputs.length === 0) {
+    return undefined;
+  }
+
+  let distance: number;
+  let sigma: number;
+
+  const exact = inputs.filter(input => input.sigma_meters <= 0);
+  if (exact.length > 0) {
+    // An exact input outweighs any noisy one
+    distance = exact.reduce((sum, input) => sum + input.distance_meters, 0) / exact.length;
+    sigma = 0;
+  } else {
+    let weightSum = 0;
+    let weightedDistance = 0;
+    for (const input of inputs) {
+      const weight = 1 / (input.sigma_meters * input.sigma_meters);
+      weightSum += weight;
+      weightedDistance += weight * input.distance_meters;
+    }
+    distance = weightedDistance / weightSum;
+    sigma = Math.sqrt(1 / weightSum);
+  }
+
+  return {
+    hunter_user_id: hunterId,
+    prey_user_id: preyId,
+    distance_meters: distance,
+    sigma_meters: sigma,
+    capture_confidence: getCaptureConfidence(distance, sigma, captureDistanceMeters),
+    sampled_at: Math.max(...inputs.map(input => input.sampled_at)),
+    source: gps && ble ? 'fused' : gps ? 'gps' : 'ble',
+    gps,
+    ble,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Social Arena - Identity
+ *
+ * Before signing in, a device plays under an anonymous device ID.
+ * Claiming the device identity moves everything keyed on that ID
+ * (room memberships, hosted arenas, arena history) to the account,
+ * so a device and its account are one player.
+ */
+
+import { RoomMember, Result, ArenaError, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import { getDeviceId } from '../lib/deviceId';
+
+export interface IdentityClaimSummary {
+  device_id: string;
+  user_id: string;
+  rooms_migrated: number;
+  arenas_migrated: number;
+  arenas_skipped: number; // Arenas the account had already joined itself
+}
+
+// Higher rank wins when a device and its account are both members of a room
+const ROLE_RANK: Record<RoomMember['role'], number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+/**
+ * Move this device's anonymous identity to an account
+ * Safe to call on every sign in; there is nothing to do once claimed.
+ */
+export async function claimDeviceIdentity(
+  userId: string
+): Promise<Result<IdentityClaimSummary, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const deviceId = await getDeviceId();
+
+    const summary: IdentityClaimSummary = {
+      device_id: deviceId,
+      user_id: userId,
+      rooms_migrated: 0,
+      arenas_migrated: 0,
+      arenas_skipped: 0,
+    };
+
+    if (!userId) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User ID is required',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    if (deviceId === userId) {
+      return {
+        success: true,
+        data: summary,
+      };
+    }
+
+    // Room memberships, ownership and hosted arenas
+    const rooms = await store.getRoomsByUserId(deviceId);
+    for (const room of rooms) {
+      const deviceMember = await store.getRoomMember(room.id, deviceId);
+      if (!deviceMember) {
+        continue;
+      }
+
+      const accountMember = await store.getRoomMember(room.id, userId);
+      if (accountMember) {
+        // Already a member from another device - keep the higher role
+        if (ROLE_RANK[deviceMember.role] > ROLE_RANK[accountMember.role]) {
+          await store.updateRoomMember(room.id, userId, { role: deviceMember.role });
+        }
+        await store.removeRoomMember(room.id, deviceId);
+      } else {
+        await store.updateRoomMember(room.id, deviceId, { user_id: userId });
+      }
+
+      if (room.owner_id === deviceId) {
+        await store.updateRoom(room.id, { owner_id: userId });
+      }
+
+      const arenas = await store.getArenasByRoomId(room.id);
+      for (const arena of arenas) {
+        if (arena.host_id === deviceId) {
+          await store.updateArena(arena.id, { host_id: userId });
+        }
+      }
+
+      summary.rooms_migrated++;
+    }
+
+    // Arena participation, including capture credit
+    const participations = await store.getArenaParticipantsByUserId(deviceId);
+    for (const participation of participations) {
+      const accountParticipant = await store.getArenaParticipant(participation.arena_id, userId);
+      if (accountParticipant) {
+        summary.arenas_skipped++;
+        continue;
+      }
+
+      await store.updateArenaParticipant(participation.arena_id, deviceId, { user_id: userId });
+
+      const others = await store.getArenaParticipants(participation.arena_id);
+      for (const other of others) {
+        if (other.captured_by_user_id === deviceId) {
+          await store.updateArenaParticipant(participation.arena_id, other.user_id, {
+            captured_by_user_id: userId,
+          });
+        }
+      }
+
+      summary.arenas_migrated++;
+    }
+
+    return {
+      success: true,
+      data: summary,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to claim device identity',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
@@ -9,15 +9,37 @@
 export * from './types';
 
 // Export store (for testing/debugging)
-export { store } from './store';
+export { store, getStateStore, setStateStore, InMemoryStore } from './store';
+export type { StateStore } from './store';
+export { SupabaseStateStore } from './supabaseStore';
+export * from './backend';
 
 // Export domain functions
 export * from './auth';
+export * from './passwords';
+export * from './sessions';
+export * from './identity';
+export * from './mailer';
+export * from './accountTokens';
+export * from './profile';
+export * from './accountDeletion';
 export * from './rooms';
 export * from './arenas';
 export * from './participants';
 export * from './location';
+export * from './antiCheat';
+export * from './tracks';
 export * from './proximity';
+export * from './ble';
+export * from './fusion';
+export * from './contact';
+export * from './events';
+export * from './timer';
+export * from './modes/registry';
+export * from './modes/predators';
+export * from './modes/outbreak';
+export * from './modes/specter';
+export * from './modes/duel';
 // TEMPORARY: Development/testing only - Remove when ready for production
 export * from './cache';
 
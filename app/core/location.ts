@@ -4,9 +4,13 @@
  * Helper functions for location management and fake coordinate generation.
  */
 
-import { ArenaParticipant } from './types';
-import { store } from './store';
-import { requireAuth } from './auth';
+import { ArenaParticipant, LocationSource, ArenaError, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import { requireAuth, getCurrentUserId } from './auth';
+import { publishArenaEvent } from './events';
+import { checkMovement, LOCATION_QUARANTINE_MS, SUSPICION_WEIGHTS } from './antiCheat';
+import { recordTrackPoint } from './tracks';
+import { canSeeSpecter } from './modes/specter';
 
 // Mock center location (e.g., a park)
 export const MOCK_CENTER = {
@@ -21,12 +25,12 @@ const SPREAD_RADIUS = 0.005;
  * Generate fake coordinates for a participant
  * Spreads players around the center point
  */
-export function generateFakeCoordinates(
+export async function generateFakeCoordinates(
   arenaId: string,
   userId: string
-): { latitude: number; longitude: number } {
+): Promise<{ latitude: number; longitude: number }> {
   // Get existing participants to avoid overlap
-  const participants = store.getArenaParticipants(arenaId);
+  const participants = await getStateStore().getArenaParticipants(arenaId);
   const existingLocations = participants
     .filter((p) => p.last_latitude && p.last_longitude)
     .map((p) => ({
@@ -60,18 +64,25 @@ export function generateFakeCoordinates(
 /**
  * Initialize locations for all participants when arena starts
  */
-export function initializeParticipantLocations(arenaId: string): void {
-  const participants = store.getArenaParticipants(arenaId);
+export async function initializeParticipantLocations(arenaId: string): Promise<void> {
+  const store = getStateStore();
+  const participants = await store.getArenaParticipants(arenaId);
   const joinedParticipants = participants.filter((p) => p.status === 'joined');
 
   for (const participant of joinedParticipants) {
     if (!participant.last_latitude || !participant.last_longitude) {
-      const coords = generateFakeCoordinates(arenaId, participant.user_id);
+      const coords = await generateFakeCoordinates(arenaId, participant.user_id);
       const now = new Date();
-      store.updateArenaParticipant(arenaId, participant.user_id, {
+      await store.updateArenaParticipant(arenaId, participant.user_id, {
         last_latitude: coords.latitude,
         last_longitude: coords.longitude,
         last_location_updated_at: now,
+        last_location_source: 'fake',
+      });
+      await recordTrackPoint(arenaId, participant.user_id, {
+        ...coords,
+        source: 'fake',
+        recorded_at: now,
       });
     }
   }
@@ -79,15 +90,29 @@ export function initializeParticipantLocations(arenaId: string): void {
 
 /**
  * Update participant location
+ * Pass the fix's reported accuracy so proximity fusion can weigh it.
+ * Implausible movement is quarantined or, for teleports, rejected with
+ * LOCATION_REJECTED (see antiCheat.ts). Stored fixes are added to the
+ * participant's track (see tracks.ts). Players can only report their own
+ * location (UNAUTHORIZED otherwise).
  */
-export function updateParticipantLocation(
+export async function updateParticipantLocation(
   arenaId: string,
   userId: string,
   latitude: number,
-  longitude: number
-): void {
+  longitude: number,
+  accuracyMeters?: number,
+  source: Exclude<LocationSource, 'fake'> = 'gps'
+): Promise<void> {
   requireAuth();
 
+  if (userId !== (await getCurrentUserId())) {
+    throw new ArenaError(
+      "Cannot update another participant's location",
+      ErrorCodes.UNAUTHORIZED
+    );
+  }
+
   // Validate coordinates
   if (
     latitude < -90 ||
@@ -98,11 +123,89 @@ export function updateParticipantLocation(
     throw new Error('Invalid coordinates');
   }
 
+  if (accuracyMeters !== undefined && !(accuracyMeters >= 0)) {
+    throw new Error('Invalid location accuracy');
+  }
+
+  const store = getStateStore();
   const now = new Date();
-  store.updateArenaParticipant(arenaId, userId, {
+
+  const participant = await store.getArenaParticipant(arenaId, userId);
+  if (!participant) {
+    return;
+  }
+
+  const verdict = checkMovement(participant, {
+    latitude,
+    longitude,
+    accuracy_meters: accuracyMeters,
+    timestamp: now.getTime(),
+  });
+
+  if (verdict.kind) {
+    await store.addLocationFlag({
+      arena_id: arenaId,
+      user_id: userId,
+      kind: verdict.kind,
+      action: verdict.action === 'reject' ? 'rejected' : 'quarantined',
+      latitude,
+      longitude,
+      previous_latitude: participant.last_latitude,
+      previous_longitude: participant.last_longitude,
+      distance_meters: verdict.distance_meters,
+      speed_mps: verdict.speed_mps,
+      recorded_at: now,
+    });
+  }
+  const suspicionScore =
+    (participant.suspicion_score ?? 0) + (verdict.kind ? SUSPICION_WEIGHTS[verdict.kind] : 0);
+
+  if (verdict.action === 'reject') {
+    await store.updateArenaParticipant(arenaId, userId, { suspicion_score: suspicionScore });
+    throw new ArenaError(
+      'Location update rejected: implausible movement',
+      ErrorCodes.LOCATION_REJECTED,
+      verdict
+    );
+  }
+
+  const updates: Partial<ArenaParticipant> = {
     last_latitude: latitude,
     last_longitude: longitude,
     last_location_updated_at: now,
-  });
+    last_location_accuracy_meters: accuracyMeters,
+    last_location_source: source,
+  };
+  if (verdict.action === 'quarantine') {
+    // Keep the fix (for the map and the next comparison) but not for captures
+    updates.location_quarantined_until = new Date(now.getTime() + LOCATION_QUARANTINE_MS);
+    updates.suspicion_score = suspicionScore;
+  }
+
+  const updated = await store.updateArenaParticipant(arenaId, userId, updates);
+  if (updated) {
+    await recordTrackPoint(arenaId, userId, {
+      latitude,
+      longitude,
+      accuracy_meters: accuracyMeters,
+      source,
+      recorded_at: now,
+    });
+  }
+
+  // Subscribers are not filtered per viewer, so a hidden specter's
+  // position is never published
+  const arena = updated ? await store.getArenaById(arenaId) : null;
+  if (updated && arena && (participant.role !== 'hunter' || canSeeSpecter(arena, undefined))) {
+    publishArenaEvent({
+      type: 'location_updated',
+      arena_id: arenaId,
+      user_id: userId,
+      latitude,
+      longitude,
+      accuracy_meters: accuracyMeters,
+      timestamp: now,
+    });
+  }
 }
 
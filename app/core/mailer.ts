@@ -0,0 +1,63 @@
+/**
+ * Social Arena - Mailer
+ *
+ * Outgoing email goes through a pluggable Mailer. The default
+ * InMemoryMailer only records messages, so account flows run offline.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// ============================================================================
+// IN-MEMORY MAILER
+// ============================================================================
+
+/**
+ * Records sent messages instead of delivering them
+ */
+export class InMemoryMailer implements Mailer {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Messages sent to an address, oldest first
+   */
+  getMessagesTo(email: string): MailMessage[] {
+    const address = email.toLowerCase();
+    return this.sent.filter(message => message.to.toLowerCase() === address);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+// ============================================================================
+// ACTIVE MAILER
+// ============================================================================
+
+let activeMailer: Mailer = new InMemoryMailer();
+
+/**
+ * Get the mailer account emails are sent through
+ */
+export function getMailer(): Mailer {
+  return activeMailer;
+}
+
+/**
+ * Replace the mailer (call once at startup, before any account flow)
+ */
+export function setMailer(next: Mailer): void {
+  activeMailer = next;
+}
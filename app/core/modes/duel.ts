@@ -0,0 +1,272 @@
+/**
+ * Social Arena - Duel Mode
+ *
+ * Strict 1v1 mutual hunt: both players are hunter and prey at once.
+ * The first to hold CAPTURE_DISTANCE_METERS on the other for
+ * CAPTURE_HOLD_MS wins. A timeout is a draw.
+ */
+
+import {
+  ArenaParticipant,
+  ArenaSettings,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from '../types';
+import { getStateStore } from '../store';
+import { endArena } from '../arenas';
+import { publishArenaEvent } from '../events';
+import { PROXIMITY_SETTINGS_SCHEMA } from '../proximity';
+import {
+  GameModeDefinition,
+  ModeTickContext,
+  ModeTickResult,
+  checkRoleRequirements,
+  escapeSurvivingPrey,
+  getDefaultSettings,
+  registerGameMode,
+} from './registry';
+
+export const DUEL_PLAYER_COUNT = 2;
+
+/**
+ * One direction of contact between the duelists
+ */
+export interface DuelContact {
+  attacker_user_id: string;
+  target_user_id: string;
+  contact_started_at: number; // Timestamp when the attacker entered capture range
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Validate the starting line-up
+ * Requires exactly 2 joined players and no spectators.
+ */
+export function validateDuelRoles(
+  joinedParticipants: ArenaParticipant[],
+  settings: ArenaSettings = getDefaultSettings('duel') as ArenaSettings
+): ArenaError | null {
+  return checkRoleRequirements(duelMode.getRoleRequirements(settings), joinedParticipants);
+}
+
+/**
+ * Pick the winning contact among those that completed their hold
+ * Tie-break for simultaneous contact:
+ * 1. Earliest contact start wins
+ * 2. Otherwise the player with the most recent location fix (they closed the gap)
+ * 3. Otherwise the player who joined the arena first
+ */
+export function resolveDuelContact(
+  completedContacts: DuelContact[],
+  participants: ArenaParticipant[]
+): DuelContact | null {
+  if (completedContacts.length === 0) {
+    return null;
+  }
+
+  const locationTime = (userId: string): number => {
+    const participant = participants.find(p => p.user_id === userId);
+    return participant?.last_location_updated_at?.getTime() ?? 0;
+  };
+  const joinTime = (userId: string): number => {
+    const participant = participants.find(p => p.user_id === userId);
+    return participant ? participant.joined_at.getTime() : Number.MAX_SAFE_INTEGER;
+  };
+
+  return [...completedContacts].sort((a, b) => {
+    if (a.contact_started_at !== b.contact_started_at) {
+      return a.contact_started_at - b.contact_started_at;
+    }
+    const fixDelta = locationTime(b.attacker_user_id) - locationTime(a.attacker_user_id);
+    if (fixDelta !== 0) {
+      return fixDelta;
+    }
+    return joinTime(a.attacker_user_id) - joinTime(b.attacker_user_id);
+  })[0];
+}
+
+/**
+ * Get the winner of a finished duel
+ * Returns null for a draw or an unfinished duel.
+ */
+export function getDuelWinner(participants: ArenaParticipant[]): string | null {
+  const loser = participants.find(p => p.is_captured && p.captured_by_user_id);
+  return loser ? loser.captured_by_user_id! : null;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Finish a duel: the loser is captured and the arena ends
+ */
+export async function resolveDuel(
+  arenaId: string,
+  winnerUserId: string,
+  loserUserId: string
+): Promise<Result<ArenaParticipant, ArenaError>> {
+  const store = getStateStore();
+
+  const arena = await store.getArenaById(arenaId);
+  if (!arena) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena not found',
+        ErrorCodes.ARENA_NOT_FOUND
+      ),
+    };
+  }
+
+  if (arena.status !== 'active' || arena.mode !== 'duel') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena is not an active duel',
+        ErrorCodes.INVALID_STATE_TRANSITION
+      ),
+    };
+  }
+
+  const winner = await store.getArenaParticipant(arenaId, winnerUserId);
+  const loser = await store.getArenaParticipant(arenaId, loserUserId);
+  if (!winner || winner.status !== 'joined' || !loser || loser.status !== 'joined') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Duel participant not found',
+        ErrorCodes.PARTICIPANT_NOT_FOUND
+      ),
+    };
+  }
+
+  const now = new Date();
+  const captured = await store.updateArenaParticipant(arenaId, loserUserId, {
+    status: 'captured',
+    is_captured: true,
+    captured_at: now,
+    captured_by_user_id: winnerUserId,
+  });
+
+  if (!captured) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Failed to resolve duel',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  publishArenaEvent({
+    type: 'prey_captured',
+    arena_id: arenaId,
+    prey_user_id: loserUserId,
+    hunter_user_id: winnerUserId,
+    timestamp: now,
+  });
+
+  // No winning team in a duel - the winner is recorded on the loser
+  const endResult = await endArena(arenaId, 'capture');
+  if (!endResult.success) {
+    return {
+      success: false,
+      error: endResult.error,
+    };
+  }
+
+  return {
+    success: true,
+    data: captured,
+  };
+}
+
+// ============================================================================
+// DEFINITION
+// ============================================================================
+
+/**
+ * Per-tick rules: evaluate both directions of the 1v1
+ * Whoever completes the hold first wins; simultaneous holds are tie-broken.
+ */
+async function duelTick({
+  arena,
+  participants,
+  contacts,
+  sensors,
+  feedback,
+}: ModeTickContext): Promise<ModeTickResult> {
+  feedback.hunterStates.clear();
+
+  const players = participants;
+  if (players.length !== DUEL_PLAYER_COUNT) {
+    return 'continue';
+  }
+
+  const completedContacts: DuelContact[] = [];
+  for (const [attacker, target] of [
+    [players[0], players[1]],
+    [players[1], players[0]],
+  ]) {
+    // Each direction fuses its own BLE scan (if any) with the shared GPS distance
+    const reading = sensors.measure(attacker, target);
+    if (!reading) {
+      continue;
+    }
+
+    // Each player sees the distance to their opponent
+    feedback.setHunterDistance(attacker.user_id, reading.distance_meters);
+
+    if (contacts.update(attacker.user_id, target.user_id, reading)) {
+      completedContacts.push({
+        attacker_user_id: attacker.user_id,
+        target_user_id: target.user_id,
+        contact_started_at: contacts.getContactStart(attacker.user_id, target.user_id)!,
+      });
+    }
+  }
+
+  const winningContact = resolveDuelContact(completedContacts, participants);
+  if (!winningContact) {
+    return 'continue';
+  }
+
+  const result = await resolveDuel(
+    arena.id,
+    winningContact.attacker_user_id,
+    winningContact.target_user_id
+  );
+  if (!result.success) {
+    console.error('Duel resolution failed:', result.error.message);
+    return 'continue'; // Retry on the next tick
+  }
+  return 'stop';
+}
+
+export const duelMode: GameModeDefinition = {
+  mode: 'duel',
+  name: 'Duel',
+  settingsSchema: PROXIMITY_SETTINGS_SCHEMA,
+  getRoleRequirements: () => ({
+    players: { min: DUEL_PLAYER_COUNT, max: DUEL_PLAYER_COUNT },
+    allowSpectators: false,
+  }),
+  validateStart: validateDuelRoles,
+  isBleBroadcaster: () => true, // Both duelists are prey
+  tick: duelTick,
+  timeoutWinner: undefined, // A timeout is a draw
+  getEndTransitions(participants, reason) {
+    // The loser was marked by resolveDuel; on a draw both duelists escape
+    if (reason === 'timeout') {
+      return escapeSurvivingPrey(participants, () => true);
+    }
+    return [];
+  },
+};
+
+registerGameMode(duelMode);
@@ -0,0 +1,11 @@
+/**
+ * Social Arena - Built-in Game Modes
+ *
+ * Importing this module registers every built-in mode with the registry.
+ * Add new modes here.
+ */
+
+import './predators';
+import './outbreak';
+import './specter';
+import './duel';
@@ -0,0 +1,272 @@
+/**
+ * Social Arena - Outbreak Mode
+ *
+ * Infection tag: initial hunters infect prey with the same
+ * distance-and-hold rule as a Predators capture. Infected prey
+ * become hunters and keep playing. Hunters win when everyone is
+ * infected; survivors win when the clock runs out.
+ */
+
+import {
+  Arena,
+  ArenaParticipant,
+  ArenaSettings,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from '../types';
+import { getStateStore } from '../store';
+import { endArena } from '../arenas';
+import { publishArenaEvent } from '../events';
+import { PROXIMITY_SETTINGS_SCHEMA } from '../proximity';
+import {
+  GameModeDefinition,
+  ModeTickContext,
+  ModeTickResult,
+  checkRoleRequirements,
+  escapeSurvivingPrey,
+  getDefaultSettings,
+  registerGameMode,
+} from './registry';
+
+export const OUTBREAK_MAX_INITIAL_HUNTERS = 12;
+
+export interface InfectionRecord {
+  user_id: string;
+  infected_by_user_id: string;
+  infected_at: Date;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Validate the starting role distribution
+ * Requires 1 to max_hunters initial hunters and at least one prey.
+ */
+export function validateOutbreakRoles(
+  joinedParticipants: ArenaParticipant[],
+  settings: ArenaSettings = getDefaultSettings('outbreak') as ArenaSettings
+): ArenaError | null {
+  return checkRoleRequirements(outbreakMode.getRoleRequirements(settings), joinedParticipants);
+}
+
+/**
+ * Get prey that are still uninfected
+ */
+export function getSurvivors(participants: ArenaParticipant[]): ArenaParticipant[] {
+  return participants.filter(p => p.role === 'prey' && p.status === 'joined');
+}
+
+// ============================================================================
+// INFECTION
+// ============================================================================
+
+/**
+ * Infect a prey (converts them to a hunter)
+ * Ends the arena with a hunters win once no survivors remain.
+ */
+export async function infectPrey(
+  arenaId: string,
+  preyUserId: string,
+  hunterUserId: string
+): Promise<Result<ArenaParticipant, ArenaError>> {
+  const store = getStateStore();
+
+  const arena = await store.getArenaById(arenaId);
+  if (!arena) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena not found',
+        ErrorCodes.ARENA_NOT_FOUND
+      ),
+    };
+  }
+
+  if (arena.status !== 'active' || arena.mode !== 'outbreak') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena is not an active outbreak',
+        ErrorCodes.INVALID_STATE_TRANSITION
+      ),
+    };
+  }
+
+  const prey = await store.getArenaParticipant(arenaId, preyUserId);
+  if (!prey || prey.role !== 'prey' || prey.status !== 'joined') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Prey participant not found',
+        ErrorCodes.PARTICIPANT_NOT_FOUND
+      ),
+    };
+  }
+
+  // Convert prey to hunter, recording who infected them
+  const now = new Date();
+  const infected = await store.updateArenaParticipant(arenaId, preyUserId, {
+    role: 'hunter',
+    is_captured: true,
+    captured_at: now,
+    captured_by_user_id: hunterUserId,
+    is_ble_broadcasting: false,
+  });
+
+  if (!infected) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Failed to infect prey',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  publishArenaEvent({
+    type: 'prey_infected',
+    arena_id: arenaId,
+    prey_user_id: preyUserId,
+    hunter_user_id: hunterUserId,
+    timestamp: now,
+  });
+
+  // Everyone infected - hunters win
+  const participants = await store.getArenaParticipants(arenaId);
+  if (getSurvivors(participants).length === 0) {
+    const endResult = await endArena(arenaId, 'capture', 'hunters');
+    if (!endResult.success) {
+      return {
+        success: false,
+        error: endResult.error,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    data: infected,
+  };
+}
+
+/**
+ * Per-tick rules: every hunter can infect every surviving prey
+ * Hold timers are tracked per hunter/prey pair; the outbreak keeps running.
+ */
+async function outbreakTick({
+  arena,
+  participants,
+  contacts,
+  sensors,
+  feedback,
+}: ModeTickContext): Promise<ModeTickResult> {
+  const survivors = getSurvivors(participants);
+  const hunters = participants.filter(p => p.role === 'hunter');
+
+  // Feedback: closest hunter per prey, closest survivor per hunter
+  feedback.hunterStates.clear();
+  feedback.preyDistances.clear();
+
+  for (const prey of survivors) {
+    for (const hunter of hunters) {
+      const reading = sensors.measure(hunter, prey);
+      if (!reading) {
+        continue;
+      }
+      const distance = reading.distance_meters;
+      feedback.setPreyDistance(prey.user_id, distance);
+      feedback.setHunterDistance(hunter.user_id, distance);
+
+      if (contacts.update(hunter.user_id, prey.user_id, reading)) {
+        contacts.clearPrey(prey.user_id);
+        const result = await infectPrey(arena.id, prey.user_id, hunter.user_id);
+        if (!result.success) {
+          console.error('Infection failed:', result.error.message);
+        }
+        break; // This prey is now a hunter
+      }
+    }
+  }
+
+  return 'continue';
+}
+
+/**
+ * Get the infection chain for an outbreak arena, in infection order
+ * Initial hunters are the roots; each record points at its infector.
+ */
+export async function getInfectionChain(
+  arenaId: string
+): Promise<Result<InfectionRecord[], ArenaError>> {
+  const store = getStateStore();
+
+  const arena: Arena | undefined = await store.getArenaById(arenaId);
+  if (!arena) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena not found',
+        ErrorCodes.ARENA_NOT_FOUND
+      ),
+    };
+  }
+
+  const participants = await store.getArenaParticipants(arenaId);
+  const chain = participants
+    .filter(p => p.role === 'hunter' && p.is_captured && p.captured_by_user_id && p.captured_at)
+    .map(p => ({
+      user_id: p.user_id,
+      infected_by_user_id: p.captured_by_user_id!,
+      infected_at: p.captured_at!,
+    }))
+    .sort((a, b) => a.infected_at.getTime() - b.infected_at.getTime());
+
+  return {
+    success: true,
+    data: chain,
+  };
+}
+
+// ============================================================================
+// DEFINITION
+// ============================================================================
+
+export const outbreakMode: GameModeDefinition = {
+  mode: 'outbreak',
+  name: 'Outbreak',
+  settingsSchema: {
+    ...PROXIMITY_SETTINGS_SCHEMA,
+    max_hunters: {
+      default: OUTBREAK_MAX_INITIAL_HUNTERS,
+      min: 1,
+      max: OUTBREAK_MAX_INITIAL_HUNTERS,
+      integer: true,
+      description: 'Maximum number of initial hunters',
+    },
+  },
+  getRoleRequirements: (settings) => ({
+    hunters: {
+      min: 1,
+      max: settings.max_hunters ?? OUTBREAK_MAX_INITIAL_HUNTERS,
+      label: 'initial hunters',
+    },
+    prey: { min: 1, max: Infinity },
+    allowSpectators: true,
+  }),
+  validateStart: validateOutbreakRoles,
+  isBleBroadcaster: (participant) => participant.role === 'prey',
+  tick: outbreakTick,
+  timeoutWinner: 'prey',
+  getEndTransitions(participants, reason, winnerTeam) {
+    // Infected prey are already hunters; only survivors change on timeout
+    if (reason === 'timeout' && winnerTeam === 'prey') {
+      return escapeSurvivingPrey(participants);
+    }
+    return [];
+  },
+};
+
+registerGameMode(outbreakMode);
@@ -0,0 +1,140 @@
+/**
+ * Social Arena - Predators Mode
+ *
+ * The original game: 1-12 hunters chase the prey (one by default, up to
+ * max_prey). A hunter holding capture range captures that prey; the
+ * arena ends with a hunters win once every prey is captured, and the
+ * prey still standing win when the clock runs out.
+ */
+
+import { ArenaParticipant, ArenaSettings, ArenaError } from '../types';
+import { capturePrey } from '../arenas';
+import { PROXIMITY_SETTINGS_SCHEMA } from '../proximity';
+import {
+  GameModeDefinition,
+  ModeTickContext,
+  ModeTickResult,
+  checkRoleRequirements,
+  escapeSurvivingPrey,
+  getDefaultSettings,
+  registerGameMode,
+} from './registry';
+
+export const PREDATORS_MAX_HUNTERS = 12;
+export const PREDATORS_MAX_PREY = 12;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Validate the starting role distribution
+ * Requires 1 to max_prey prey and 1 to max_hunters hunters.
+ */
+export function validatePredatorsRoles(
+  joinedParticipants: ArenaParticipant[],
+  settings: ArenaSettings = getDefaultSettings('predators') as ArenaSettings
+): ArenaError | null {
+  return checkRoleRequirements(predatorsMode.getRoleRequirements(settings), joinedParticipants);
+}
+
+/**
+ * Per-tick rules: every hunter chases every prey still in the game
+ * Hold timers are tracked per hunter/prey pair.
+ */
+async function predatorsTick({
+  arena,
+  participants,
+  contacts,
+  sensors,
+  feedback,
+}: ModeTickContext): Promise<ModeTickResult> {
+  const prey = participants.filter((p) => p.role === 'prey');
+  const hunters = participants.filter((p) => p.role === 'hunter');
+
+  feedback.hunterStates.clear();
+  feedback.preyDistances.clear();
+
+  for (const preyParticipant of prey) {
+    // Check each hunter's proximity to this prey
+    for (const hunter of hunters) {
+      // Needs GPS fixes for both or a BLE scan of the prey
+      const reading = sensors.measure(hunter, preyParticipant);
+      if (!reading) {
+        continue;
+      }
+      const distance = reading.distance_meters;
+
+      const held = contacts.update(hunter.user_id, preyParticipant.user_id, reading);
+      feedback.setPreyDistance(preyParticipant.user_id, distance);
+      feedback.setHunterDistance(
+        hunter.user_id,
+        distance,
+        contacts.getContactStart(hunter.user_id, preyParticipant.user_id)
+      );
+
+      if (!held) {
+        continue;
+      }
+
+      // Capture condition met
+      const result = await capturePrey(arena.id, preyParticipant.user_id, hunter.user_id);
+      if (!result.success) {
+        console.error('Capture failed:', result.error.message);
+        break; // Retry on the next tick
+      }
+      if (result.data.status === 'ended') {
+        return 'stop'; // Last prey captured
+      }
+      contacts.clearPrey(preyParticipant.user_id);
+      feedback.preyDistances.delete(preyParticipant.user_id);
+      break;
+    }
+  }
+
+  return 'continue';
+}
+
+// ============================================================================
+// DEFINITION
+// ============================================================================
+
+export const predatorsMode: GameModeDefinition = {
+  mode: 'predators',
+  name: 'Predators',
+  settingsSchema: {
+    ...PROXIMITY_SETTINGS_SCHEMA,
+    max_hunters: {
+      default: PREDATORS_MAX_HUNTERS,
+      min: 1,
+      max: PREDATORS_MAX_HUNTERS,
+      integer: true,
+      description: 'Maximum number of hunters',
+    },
+    max_prey: {
+      default: 1,
+      min: 1,
+      max: PREDATORS_MAX_PREY,
+      integer: true,
+      description: 'Maximum number of prey (more than 1 plays until all are captured)',
+    },
+  },
+  getRoleRequirements: (settings) => ({
+    prey: { min: 1, max: settings.max_prey ?? 1 },
+    hunters: { min: 1, max: settings.max_hunters ?? PREDATORS_MAX_HUNTERS },
+    allowSpectators: true,
+  }),
+  validateStart: validatePredatorsRoles,
+  isBleBroadcaster: (participant) => participant.role === 'prey',
+  tick: predatorsTick,
+  timeoutWinner: 'prey',
+  getEndTransitions(participants, reason, winnerTeam) {
+    // capturePrey() marks each prey before ending; survivors escape on timeout
+    if (reason === 'timeout' && winnerTeam === 'prey') {
+      return escapeSurvivingPrey(participants);
+    }
+    return [];
+  },
+};
+
+registerGameMode(predatorsMode);
@@ -0,0 +1,323 @@
+/**
+ * Social Arena - Game Mode Registry
+ *
+ * Every game mode declares its rules as a GameModeDefinition: role
+ * requirements, settings schema, start validation, per-tick proximity
+ * rules, win conditions and participant status transitions.
+ * The arena lifecycle, clock and proximity engine look modes up here
+ * instead of branching on arena.mode.
+ *
+ * Mode modules register themselves; built-in modes are loaded by ./index.
+ */
+
+import {
+  Arena,
+  ArenaParticipant,
+  ArenaSettings,
+  GameMode,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from '../types';
+import type { ContactTimers, ProximityFeedback, ProximitySensors } from '../proximity';
+
+// ============================================================================
+// DEFINITION TYPES
+// ============================================================================
+
+export type EndReason = NonNullable<Arena['ended_reason']>;
+export type WinnerTeam = NonNullable<Arena['winner_team']>;
+
+export interface CountRange {
+  min: number;
+  max: number; // Use Infinity for no upper bound
+  label?: string; // Name used in error messages (defaults to the role)
+}
+
+export interface RoleRequirements {
+  hunters?: CountRange;
+  prey?: CountRange;
+  players?: CountRange; // All joined participants
+  allowSpectators: boolean;
+}
+
+export interface ModeSettingDefinition {
+  default: number;
+  min: number;
+  max: number;
+  integer?: boolean;
+  description: string;
+}
+
+// Settings a mode does not declare are rejected
+export type ModeSettingsSchema = { [K in keyof ArenaSettings]?: ModeSettingDefinition };
+
+export interface ModeTickContext {
+  arena: Arena;
+  settings: ArenaSettings; // Resolved per-arena settings
+  participants: ArenaParticipant[]; // Joined participants only
+  now: number;
+  contacts: ContactTimers;
+  sensors: ProximitySensors; // Fused GPS + BLE distance per hunter/prey pair
+  feedback: ProximityFeedback;
+}
+
+export type ModeTickResult = 'continue' | 'stop';
+
+export interface ParticipantTransition {
+  user_id: string;
+  updates: Partial<ArenaParticipant>;
+}
+
+export interface GameModeDefinition {
+  mode: GameMode;
+  name: string;
+  settingsSchema: ModeSettingsSchema;
+  getRoleRequirements(settings: ArenaSettings): RoleRequirements;
+  validateStart(joinedParticipants: ArenaParticipant[], settings: ArenaSettings): ArenaError | null;
+  isBleBroadcaster(participant: ArenaParticipant): boolean; // Broadcasts from arena start
+  tick(context: ModeTickContext): Promise<ModeTickResult>; // 'stop' ends proximity tracking
+  timeoutWinner?: WinnerTeam; // Undefined means a timeout is a draw
+  getEndTransitions(
+    participants: ArenaParticipant[],
+    reason: EndReason,
+    winnerTeam: WinnerTeam | undefined,
+    now: Date
+  ): ParticipantTransition[];
+}
+
+// ============================================================================
+// SHARED RULES
+// ============================================================================
+
+function checkCount(
+  count: number,
+  range: CountRange,
+  label: string,
+  details: Record<string, number>
+): ArenaError | null {
+  if (count >= range.min && count <= range.max) {
+    return null;
+  }
+
+  const name = range.label || label;
+  const expected =
+    range.min === range.max
+      ? `exactly ${range.min}`
+      : range.max === Infinity
+      ? `at least ${range.min}`
+      : `${range.min}-${range.max}`;
+
+  return new ArenaError(
+    `Must have ${expected} ${name} (found ${count})`,
+    ErrorCodes.INVALID_ROLES,
+    {
+      ...details,
+      required: range.min === range.max ? range.min : { min: range.min, max: range.max },
+    }
+  );
+}
+
+/**
+ * Validate joined participants against a mode's role requirements
+ */
+export function checkRoleRequirements(
+  requirements: RoleRequirements,
+  joinedParticipants: ArenaParticipant[]
+): ArenaError | null {
+  const prey = joinedParticipants.filter(p => p.role === 'prey');
+  const hunters = joinedParticipants.filter(p => p.role === 'hunter');
+  const spectators = joinedParticipants.filter(p => p.role === 'spectator');
+
+  const checks: Array<ArenaError | null> = [
+    requirements.players
+      ? checkCount(joinedParticipants.length, requirements.players, 'players', {
+          participant_count: joinedParticipants.length,
+        })
+      : null,
+    requirements.prey
+      ? checkCount(prey.length, requirements.prey, 'prey', { prey_count: prey.length })
+      : null,
+    requirements.hunters
+      ? checkCount(hunters.length, requirements.hunters, 'hunters', {
+          hunter_count: hunters.length,
+        })
+      : null,
+  ];
+
+  const error = checks.find(check => check !== null);
+  if (error) {
+    return error;
+  }
+
+  if (!requirements.allowSpectators && spectators.length > 0) {
+    return new ArenaError(
+      'This mode does not allow spectators',
+      ErrorCodes.INVALID_ROLES,
+      { spectator_count: spectators.length }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Mark every prey still in the game as escaped (timeout)
+ */
+export function escapeSurvivingPrey(
+  participants: ArenaParticipant[],
+  isPrey: (participant: ArenaParticipant) => boolean = p => p.role === 'prey'
+): ParticipantTransition[] {
+  return participants
+    .filter(p => isPrey(p) && p.status === 'joined')
+    .map(p => ({ user_id: p.user_id, updates: { status: 'escaped' } }));
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const gameModes: Map<GameMode, GameModeDefinition> = new Map();
+
+/**
+ * Register (or replace) a game mode definition
+ */
+export function registerGameMode(definition: GameModeDefinition): void {
+  gameModes.set(definition.mode, definition);
+}
+
+/**
+ * Get the rules for a game mode
+ */
+export function getGameMode(mode: GameMode): GameModeDefinition | undefined {
+  return gameModes.get(mode);
+}
+
+/**
+ * List all registered game modes
+ */
+export function listGameModes(): GameModeDefinition[] {
+  return Array.from(gameModes.values());
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Get the default settings declared by a mode's schema
+ */
+export function getDefaultSettings(mode: GameMode): Partial<ArenaSettings> {
+  const definition = getGameMode(mode);
+  const settings: Partial<ArenaSettings> = {};
+  if (!definition) {
+    return settings;
+  }
+
+  for (const [key, setting] of Object.entries(definition.settingsSchema)) {
+    settings[key as keyof ArenaSettings] = setting!.default;
+  }
+  return settings;
+}
+
+/**
+ * Get an arena's settings with mode defaults filled in
+ * Arenas created before settings existed store {}.
+ */
+export function getArenaSettings(arena: Arena): ArenaSettings {
+  return {
+    ...getDefaultSettings(arena.mode),
+    ...arena.settings,
+  } as ArenaSettings;
+}
+
+/**
+ * Validate settings against a mode's schema
+ * Returns the complete settings (defaults merged with the given values).
+ */
+export function validateArenaSettings(
+  mode: GameMode,
+  settings: Partial<ArenaSettings> = {}
+): Result<ArenaSettings, ArenaError> {
+  const definition = getGameMode(mode);
+  if (!definition) {
+    return {
+      success: false,
+      error: new ArenaError(
+        `Unsupported game mode: ${mode}`,
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  for (const [key, value] of Object.entries(settings)) {
+    const setting = definition.settingsSchema[key as keyof ArenaSettings];
+    if (!setting) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `Unknown setting for ${definition.name}: ${key}`,
+          ErrorCodes.INVALID_INPUT,
+          { setting: key }
+        ),
+      };
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `Setting ${key} must be a number`,
+          ErrorCodes.INVALID_INPUT,
+          { setting: key }
+        ),
+      };
+    }
+
+    if (setting.integer && !Number.isInteger(value)) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `Setting ${key} must be a whole number`,
+          ErrorCodes.INVALID_INPUT,
+          { setting: key }
+        ),
+      };
+    }
+
+    if (value < setting.min || value > setting.max) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `Setting ${key} must be between ${setting.min} and ${setting.max}`,
+          ErrorCodes.INVALID_INPUT,
+          { setting: key, value, required: { min: setting.min, max: setting.max } }
+        ),
+      };
+    }
+  }
+
+  const resolved = {
+    ...getDefaultSettings(mode),
+    ...settings,
+  } as ArenaSettings;
+
+  if (resolved.warning_distance_meters < resolved.capture_distance_meters) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Warning distance cannot be smaller than capture distance',
+        ErrorCodes.INVALID_INPUT,
+        {
+          capture_distance_meters: resolved.capture_distance_meters,
+          warning_distance_meters: resolved.warning_distance_meters,
+        }
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: resolved,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Social Arena - Specter Mode
+ *
+ * One hidden hunter (the specter) stalks the prey. Prey never see the
+ * specter's coordinates, only a coarse hint when it is within
+ * WARNING_DISTANCE_METERS. The specter captures prey with the usual
+ * distance-and-hold rule; it wins once every prey is captured, and
+ * the prey still standing win when the clock runs out.
+ */
+
+import {
+  Arena,
+  ArenaParticipant,
+  ArenaSettings,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from '../types';
+import { getStateStore } from '../store';
+import { endArena } from '../arenas';
+import { publishArenaEvent, withoutLocation } from '../events';
+import {
+  calculateDistance,
+  PROXIMITY_SETTINGS_SCHEMA,
+  WARNING_DISTANCE_METERS,
+} from '../proximity';
+import {
+  GameModeDefinition,
+  ModeTickContext,
+  ModeTickResult,
+  checkRoleRequirements,
+  escapeSurvivingPrey,
+  getArenaSettings,
+  getDefaultSettings,
+  registerGameMode,
+} from './registry';
+
+export const SPECTER_MAX_PREY = 12;
+
+export interface SpecterHint {
+  specter_nearby: boolean; // A specter is within radius_meters
+  radius_meters: number;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Validate the starting role distribution
+ * Requires exactly 1 specter (hunter) and 1 to max_prey prey.
+ */
+export function validateSpecterRoles(
+  joinedParticipants: ArenaParticipant[],
+  settings: ArenaSettings = getDefaultSettings('specter') as ArenaSettings
+): ArenaError | null {
+  return checkRoleRequirements(specterMode.getRoleRequirements(settings), joinedParticipants);
+}
+
+/**
+ * Check whether a viewer may see hunter coordinates
+ * Only the specter itself and spectators can, and only while the arena is running.
+ */
+export function canSeeSpecter(arena: Arena, viewer: ArenaParticipant | undefined): boolean {
+  if (arena.mode !== 'specter' || arena.status === 'ended') {
+    return true;
+  }
+  return viewer !== undefined && viewer.role !== 'prey';
+}
+
+// ============================================================================
+// VISIBILITY
+// ============================================================================
+
+/**
+ * Filter participant locations for a viewer
+ * In an unfinished specter arena, hunters are returned without coordinates
+ * (or their accuracy and source) to prey and to users who are not in the arena.
+ */
+export function filterParticipantsForViewer(
+  arena: Arena,
+  participants: ArenaParticipant[],
+  viewerUserId: string | null
+): ArenaParticipant[] {
+  const viewer = viewerUserId
+    ? participants.find(p => p.user_id === viewerUserId)
+    : undefined;
+
+  if (canSeeSpecter(arena, viewer)) {
+    return participants;
+  }
+
+  return participants.map(p => (p.role === 'hunter' ? withoutLocation(p) : p));
+}
+
+/**
+ * Get arena participants as a specific user is allowed to see them
+ */
+export async function getVisibleParticipants(
+  arenaId: string,
+  viewerUserId: string | null
+): Promise<Result<ArenaParticipant[], ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const arena = await store.getArenaById(arenaId);
+    if (!arena) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena not found',
+          ErrorCodes.ARENA_NOT_FOUND
+        ),
+      };
+    }
+
+    const participants = await store.getArenaParticipants(arenaId);
+
+    return {
+      success: true,
+      data: filterParticipantsForViewer(arena, participants, viewerUserId),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Failed to get participants',
+        ErrorCodes.INVALID_INPUT,
+        { error: String(error) }
+      ),
+    };
+  }
+}
+
+/**
+ * Compute the coarse specter hint for a prey
+ * Never exposes the specter's distance or coordinates, only whether it is close.
+ */
+export function computeSpecterHint(
+  prey: ArenaParticipant,
+  participants: ArenaParticipant[],
+  radiusMeters: number = WARNING_DISTANCE_METERS
+): SpecterHint {
+  const hint: SpecterHint = {
+    specter_nearby: false,
+    radius_meters: radiusMeters,
+  };
+
+  if (prey.last_latitude === undefined || prey.last_longitude === undefined) {
+    return hint;
+  }
+
+  hint.specter_nearby = participants.some(
+    p =>
+      p.role === 'hunter' &&
+      p.status === 'joined' &&
+      p.last_latitude !== undefined &&
+      p.last_longitude !== undefined &&
+      calculateDistance(
+        prey.last_latitude!,
+        prey.last_longitude!,
+        p.last_latitude,
+        p.last_longitude
+      ) <= radiusMeters
+  );
+
+  return hint;
+}
+
+/**
+ * Get the specter hint for a prey in an active specter arena
+ */
+export async function getSpecterHint(
+  arenaId: string,
+  preyUserId: string
+): Promise<Result<SpecterHint, ArenaError>> {
+  const store = getStateStore();
+
+  const arena = await store.getArenaById(arenaId);
+  if (!arena) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena not found',
+        ErrorCodes.ARENA_NOT_FOUND
+      ),
+    };
+  }
+
+  if (arena.status !== 'active' || arena.mode !== 'specter') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena is not an active specter hunt',
+        ErrorCodes.INVALID_STATE_TRANSITION
+      ),
+    };
+  }
+
+  const participants = await store.getArenaParticipants(arenaId);
+  const prey = participants.find(
+    p => p.user_id === preyUserId && p.role === 'prey' && p.status === 'joined'
+  );
+  if (!prey) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Prey participant not found',
+        ErrorCodes.PARTICIPANT_NOT_FOUND
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: computeSpecterHint(
+      prey,
+      participants,
+      getArenaSettings(arena).warning_distance_meters
+    ),
+  };
+}
+
+// ============================================================================
+// CAPTURE
+// ============================================================================
+
+/**
+ * Capture a prey in a specter arena
+ * The arena keeps running until every prey is captured (specter wins).
+ */
+export async function captureSpecterPrey(
+  arenaId: string,
+  preyUserId: string,
+  hunterUserId: string
+): Promise<Result<ArenaParticipant, ArenaError>> {
+  const store = getStateStore();
+
+  const arena = await store.getArenaById(arenaId);
+  if (!arena) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena not found',
+        ErrorCodes.ARENA_NOT_FOUND
+      ),
+    };
+  }
+
+  if (arena.status !== 'active' || arena.mode !== 'specter') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Arena is not an active specter hunt',
+        ErrorCodes.INVALID_STATE_TRANSITION
+      ),
+    };
+  }
+
+  const prey = await store.getArenaParticipant(arenaId, preyUserId);
+  if (!prey || prey.role !== 'prey' || prey.status !== 'joined') {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Prey participant not found',
+        ErrorCodes.PARTICIPANT_NOT_FOUND
+      ),
+    };
+  }
+
+  const now = new Date();
+  const captured = await store.updateArenaParticipant(arenaId, preyUserId, {
+    status: 'captured',
+    is_captured: true,
+    captured_at: now,
+    captured_by_user_id: hunterUserId,
+    is_ble_broadcasting: false,
+  });
+
+  if (!captured) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Failed to capture prey',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  publishArenaEvent({
+    type: 'prey_captured',
+    arena_id: arenaId,
+    prey_user_id: preyUserId,
+    hunter_user_id: hunterUserId,
+    timestamp: now,
+  });
+
+  // No prey left standing - specter wins
+  const participants = await store.getArenaParticipants(arenaId);
+  const remaining = participants.filter(p => p.role === 'prey' && p.status === 'joined');
+  if (remaining.length === 0) {
+    const endResult = await endArena(arenaId, 'capture', 'hunters');
+    if (!endResult.success) {
+      return {
+        success: false,
+        error: endResult.error,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    data: captured,
+  };
+}
+
+// ============================================================================
+// DEFINITION
+// ============================================================================
+
+/**
+ * Per-tick rules: the hidden specter hunts every prey
+ * Prey only get a coarse hint; each prey is captured separately.
+ */
+async function specterTick({
+  arena,
+  settings,
+  participants,
+  contacts,
+  sensors,
+  feedback,
+}: ModeTickContext): Promise<ModeTickResult> {
+  feedback.hidesHunters = true;
+  feedback.clear();
+
+  const specter = participants.find(p => p.role === 'hunter');
+  const prey = participants.filter(p => p.role === 'prey');
+
+  for (const preyParticipant of prey) {
+    feedback.preyHints.set(
+      preyParticipant.user_id,
+      computeSpecterHint(preyParticipant, participants, settings.warning_distance_meters)
+    );
+  }
+
+  if (!specter) {
+    return 'continue';
+  }
+
+  for (const preyParticipant of prey) {
+    const reading = sensors.measure(specter, preyParticipant);
+    if (!reading) {
+      continue;
+    }
+    const distance = reading.distance_meters;
+
+    // Specter's own feedback: distance to the nearest prey
+    feedback.setHunterDistance(specter.user_id, distance);
+
+    if (contacts.update(specter.user_id, preyParticipant.user_id, reading)) {
+      contacts.clearPrey(preyParticipant.user_id);
+      const result = await captureSpecterPrey(arena.id, preyParticipant.user_id, specter.user_id);
+      if (!result.success) {
+        console.error('Capture failed:', result.error.message);
+      }
+    }
+  }
+
+  return 'continue';
+}
+
+export const specterMode: GameModeDefinition = {
+  mode: 'specter',
+  name: 'Specter',
+  settingsSchema: {
+    ...PROXIMITY_SETTINGS_SCHEMA,
+    max_prey: {
+      default: SPECTER_MAX_PREY,
+      min: 1,
+      max: SPECTER_MAX_PREY,
+      integer: true,
+      description: 'Maximum number of prey',
+    },
+  },
+  getRoleRequirements: (settings) => ({
+    hunters: { min: 1, max: 1, label: 'specter' },
+    prey: { min: 1, max: settings.max_prey ?? SPECTER_MAX_PREY },
+    allowSpectators: true,
+  }),
+  validateStart: validateSpecterRoles,
+  isBleBroadcaster: (participant) => participant.role === 'prey',
+  tick: specterTick,
+  timeoutWinner: 'prey',
+  getEndTransitions(participants, reason, winnerTeam) {
+    // Captured prey were already marked; survivors escape on timeout
+    if (reason === 'timeout' && winnerTeam === 'prey') {
+      return escapeSurvivingPrey(participants);
+    }
+    return [];
+  },
+};
+
+registerGameMode(specterMode);
@@ -12,10 +12,11 @@ import {
   ArenaError,
   ErrorCodes,
 } from './types';
-import { store } from './store';
-import { getDeviceId } from '../lib/deviceId';
-import { supabase } from '../lib/supabase';
-import { requireRoomMembership } from './rooms';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
+import { publishArenaEvent } from './events';
+import { endArena } from './arenas';
+import { clearMovementHistory } from './antiCheat';
 
 // ============================================================================
 // PARTICIPANT FUNCTIONS
@@ -34,10 +35,11 @@ export async function joinArena(
   role: ParticipantRole = 'spectator'
 ): Promise<Result<ArenaParticipant, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -59,16 +61,8 @@ export async function joinArena(
     };
   }
 
-  // Check room membership (try Supabase first, then fallback)
-  const { data: memberData } = await supabase
-    .from('room_members')
-    .select('id')
-    .eq('room_id', arena.room_id)
-    .eq('user_id', userId)
-    .single();
-
-  const isMember = memberData || store.isRoomMember(arena.room_id, userId);
-  
+  // Check room membership
+  const isMember = await store.isRoomMember(arena.room_id, userId);
   if (!isMember) {
     return {
       success: false,
@@ -80,7 +74,7 @@ export async function joinArena(
   }
 
   // Invariant 2: Check if user is in another active arena
-  const userActiveArena = store.getActiveArenaByUserId(userId);
+  const userActiveArena = await store.getActiveArenaByUserId(userId);
   if (userActiveArena && userActiveArena.id !== arenaId) {
     return {
       success: false,
@@ -93,7 +87,7 @@ export async function joinArena(
   }
 
   // Check if already a participant
-  const existingParticipant = store.getArenaParticipant(arenaId, userId);
+  const existingParticipant = await store.getArenaParticipant(arenaId, userId);
   if (existingParticipant) {
     // Invariant 4: Cannot rejoin if left an active arena
     if (existingParticipant.status === 'left' && arena.status === 'active') {
@@ -108,7 +102,7 @@ export async function joinArena(
 
     // If in lobby and status is 'left', allow rejoin by updating status
     if (existingParticipant.status === 'left' && arena.status === 'lobby') {
-      const updated = store.updateArenaParticipant(arenaId, userId, {
+      const updated = await store.updateArenaParticipant(arenaId, userId, {
         status: 'joined',
         left_at: undefined,
         role, // Allow role change on rejoin
@@ -122,6 +116,12 @@ export async function joinArena(
           ),
         };
       }
+      publishArenaEvent({
+        type: 'participant_joined',
+        arena_id: arenaId,
+        participant: updated,
+        timestamp: updated.updated_at,
+      });
       return {
         success: true,
         data: updated,
@@ -136,7 +136,7 @@ export async function joinArena(
   }
 
   // Create new participant
-  const participant = store.createArenaParticipant({
+  const participant = await store.createArenaParticipant({
     arena_id: arenaId,
     user_id: userId,
     role,
@@ -144,8 +144,13 @@ export async function joinArena(
     joined_at: new Date(),
     is_captured: false,
     is_ble_broadcasting: false,
-    created_at: new Date(),
-    updated_at: new Date(),
+  });
+
+  publishArenaEvent({
+    type: 'participant_joined',
+    arena_id: arenaId,
+    participant,
+    timestamp: participant.joined_at,
   });
 
   return {
@@ -171,10 +176,11 @@ export async function joinArena(
  */
 export async function leaveArena(arenaId: string): Promise<Result<void, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -186,7 +192,7 @@ export async function leaveArena(arenaId: string): Promise<Result<void, ArenaErr
   }
 
   // Get participant
-  const participant = store.getArenaParticipant(arenaId, userId);
+  const participant = await store.getArenaParticipant(arenaId, userId);
   if (!participant) {
     return {
       success: false,
@@ -206,7 +212,7 @@ export async function leaveArena(arenaId: string): Promise<Result<void, ArenaErr
   }
 
   // Update participant status
-  const updated = store.updateArenaParticipant(arenaId, userId, {
+  const updated = await store.updateArenaParticipant(arenaId, userId, {
     status: 'left',
     left_at: new Date(),
     is_ble_broadcasting: false, // Stop BLE if was broadcasting
@@ -222,28 +228,35 @@ export async function leaveArena(arenaId: string): Promise<Result<void, ArenaErr
     };
   }
 
+  publishArenaEvent({
+    type: 'participant_left',
+    arena_id: arenaId,
+    participant: updated,
+    timestamp: updated.left_at || new Date(),
+  });
+
+  // A player who left sends no more fixes to validate
+  clearMovementHistory(arenaId, userId);
+
   // If arena is active and this was the prey, stop BLE
   if (arena.status === 'active' && participant.role === 'prey') {
-    store.updateArenaParticipant(arenaId, userId, {
+    await store.updateArenaParticipant(arenaId, userId, {
       is_ble_broadcasting: false,
     });
   }
 
   // Check if all players left (end arena)
-  const remainingParticipants = store.getArenaParticipants(arenaId);
+  const remainingParticipants = await store.getArenaParticipants(arenaId);
   const joinedCount = remainingParticipants.filter(
     p => p.status === 'joined'
   ).length;
 
   if (joinedCount === 0 && arena.status === 'active') {
-    // End arena (this will be handled by arenas.ts endArena function)
-    // For now, just update status
-    store.updateArena(arenaId, {
-      status: 'ended',
-      ended_at: new Date(),
-      ended_reason: 'all_left',
-      updated_at: new Date(),
-    });
+    // Same path as any other end: clock, mode transitions, track compaction
+    const endResult = await endArena(arenaId, 'all_left');
+    if (!endResult.success && endResult.error.code !== ErrorCodes.ARENA_ALREADY_ENDED) {
+      console.error('Error ending abandoned arena:', endResult.error.message);
+    }
   }
 
   return {
@@ -264,13 +277,14 @@ export async function leaveArena(arenaId: string): Promise<Result<void, ArenaErr
 /**
  * Get arena participants
  */
-export function getArenaParticipants(
+export async function getArenaParticipants(
   arenaId: string
-): Result<ArenaParticipant[], ArenaError> {
+): Promise<Result<ArenaParticipant[], ArenaError>> {
   // No auth required - just get participants
+  const store = getStateStore();
 
   // Check if arena exists
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -281,7 +295,7 @@ export function getArenaParticipants(
     };
   }
 
-  const participants = store.getArenaParticipants(arenaId);
+  const participants = await store.getArenaParticipants(arenaId);
   return {
     success: true,
     data: participants,
@@ -297,10 +311,11 @@ export async function assignRole(
   role: ParticipantRole
 ): Promise<Result<ArenaParticipant, ArenaError>> {
   try {
-    const currentUserId = await getDeviceId();
+    const currentUserId = await getCurrentUserId();
+    const store = getStateStore();
 
   // Get arena
-  const arena = store.getArenaById(arenaId);
+  const arena = await store.getArenaById(arenaId);
   if (!arena) {
     return {
       success: false,
@@ -334,7 +349,7 @@ export async function assignRole(
   }
 
   // Get participant
-  const participant = store.getArenaParticipant(arenaId, userId);
+  const participant = await store.getArenaParticipant(arenaId, userId);
   if (!participant) {
     return {
       success: false,
@@ -346,7 +361,7 @@ export async function assignRole(
   }
 
   // Update role
-  const updated = store.updateArenaParticipant(arenaId, userId, {
+  const updated = await store.updateArenaParticipant(arenaId, userId, {
     role,
   });
 
@@ -360,6 +375,14 @@ export async function assignRole(
     };
   }
 
+  publishArenaEvent({
+    type: 'role_assigned',
+    arena_id: arenaId,
+    participant: updated,
+    previous_role: participant.role,
+    timestamp: updated.updated_at,
+  });
+
   return {
     success: true,
     data: updated,
@@ -380,9 +403,9 @@ export async function assignRole(
  */
 export async function getUserActiveArena(): Promise<Result<string | null, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
 
-    const activeArena = store.getActiveArenaByUserId(userId);
+    const activeArena = await getStateStore().getActiveArenaByUserId(userId);
     return {
       success: true,
       data: activeArena?.id || null,
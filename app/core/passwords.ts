@@ -0,0 +1,157 @@
+/**
+ * Social Arena - Password Hashing
+ *
+ * Salted PBKDF2-HMAC-SHA256 password hashes with constant-time verification.
+ * Stored format: pbkdf2_sha256$<iterations>$<salt base64>$<hash base64>
+ *
+ * Raising PASSWORD_HASH_ITERATIONS is safe: existing hashes still verify
+ * and needsRehash() flags them so login can upgrade them.
+ */
+
+import {
+  utf8Encode,
+  toBase64,
+  fromBase64,
+  pbkdf2Sha256,
+  constantTimeEqual,
+  randomBytes,
+} from '../lib/crypto';
+
+// ============================================================================
+// PARAMETERS
+// ============================================================================
+
+export const PASSWORD_HASH_ALGORITHM = 'pbkdf2_sha256';
+export const PASSWORD_HASH_ITERATIONS = 20000; // Pure JS on Hermes - keep login fast on phones
+export const PASSWORD_SALT_BYTES = 16;
+export const PASSWORD_KEY_BYTES = 32;
+
+// Legacy format written before real hashing existed
+const PLACEHOLDER_PREFIX = 'hashed:';
+
+interface PasswordHashParams {
+  algorithm: string;
+  iterations: number;
+  salt: Uint8Array;
+}
+
+interface ParsedPasswordHash extends PasswordHashParams {
+  hash: Uint8Array;
+}
+
+function parsePasswordParams(params: string): PasswordHashParams | null {
+  const parts = params.split('$');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [algorithm, iterationsText, saltText] = parts;
+  const iterations = Number(iterationsText);
+  const salt = fromBase64(saltText);
+  if (!Number.isInteger(iterations) || iterations < 1 || !salt) {
+    return null;
+  }
+
+  return { algorithm, iterations, salt };
+}
+
+function parsePasswordHash(storedHash: string): ParsedPasswordHash | null {
+  const separator = storedHash.lastIndexOf('$');
+  const params = separator >= 0 ? parsePasswordParams(storedHash.slice(0, separator)) : null;
+  const hash = fromBase64(storedHash.slice(separator + 1));
+  if (!params || !hash) {
+    return null;
+  }
+
+  return { ...params, hash };
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Hash a password with a fresh random salt
+ */
+export async function hashPassword(
+  password: string,
+  iterations: number = PASSWORD_HASH_ITERATIONS
+): Promise<string> {
+  const salt = randomBytes(PASSWORD_SALT_BYTES);
+  const hash = await pbkdf2Sha256(utf8Encode(password), salt, iterations, PASSWORD_KEY_BYTES);
+  return [PASSWORD_HASH_ALGORITHM, iterations, toBase64(salt), toBase64(hash)].join('$');
+}
+
+/**
+ * Get the parameters of a stored hash: everything but the digest
+ * Stores hand these out instead of the hash, so a password can be checked
+ * by deriving a hash with derivePasswordHash() and comparing in the store.
+ */
+export function passwordHashParams(storedHash: string): string {
+  if (isPlaceholderHash(storedHash)) {
+    return PLACEHOLDER_PREFIX;
+  }
+  return storedHash.slice(0, Math.max(0, storedHash.lastIndexOf('$')));
+}
+
+/**
+ * Hash a password with the parameters of a stored hash
+ * The result equals the stored hash only for the right password. Returns
+ * null for parameters this version cannot compute.
+ */
+export async function derivePasswordHash(password: string, params: string): Promise<string | null> {
+  if (params === PLACEHOLDER_PREFIX) {
+    return `${PLACEHOLDER_PREFIX}${password}`;
+  }
+
+  const parsed = parsePasswordParams(params);
+  if (!parsed || parsed.algorithm !== PASSWORD_HASH_ALGORITHM) {
+    return null;
+  }
+
+  const hash = await pbkdf2Sha256(
+    utf8Encode(password),
+    parsed.salt,
+    parsed.iterations,
+    PASSWORD_KEY_BYTES
+  );
+  return `${params}$${toBase64(hash)}`;
+}
+
+/**
+ * Check a password against a stored hash
+ * Also accepts legacy "hashed:" placeholders so those users can log in once and be upgraded.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const candidate = await derivePasswordHash(password, passwordHashParams(storedHash));
+  return candidate !== null && constantTimeEqual(utf8Encode(candidate), utf8Encode(storedHash));
+}
+
+/**
+ * Check whether a stored hash should be replaced
+ * True for placeholders, other algorithms and outdated parameters.
+ */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parsePasswordHash(storedHash);
+  return (
+    !parsed ||
+    parsed.algorithm !== PASSWORD_HASH_ALGORITHM ||
+    parsed.iterations !== PASSWORD_HASH_ITERATIONS ||
+    parsed.salt.length !== PASSWORD_SALT_BYTES ||
+    parsed.hash.length !== PASSWORD_KEY_BYTES
+  );
+}
+
+/**
+ * Check for a legacy "hashed:<password>" placeholder
+ */
+export function isPlaceholderHash(storedHash: string): boolean {
+  return storedHash.startsWith(PLACEHOLDER_PREFIX);
+}
+
+/**
+ * Hash the password embedded in a legacy placeholder
+ */
+export async function hashPlaceholder(storedHash: string): Promise<string> {
+  return hashPassword(storedHash.slice(PLACEHOLDER_PREFIX.length));
+}
@@ -0,0 +1,285 @@
+/**
+ * Social Arena - User Profiles
+ *
+ * Profile edits for the signed-in user and the public profile other
+ * players see in lobbies.
+ */
+
+import {
+  User,
+  UserWithoutPassword,
+  PublicProfile,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from './types';
+import { getStateStore } from './store';
+import { requireAuth, setCurrentUser, validateUsername, checkUserPassword } from './auth';
+import { sendVerificationEmail } from './accountTokens';
+
+export const DISPLAY_NAME_MAX_LENGTH = 40;
+export const AVATAR_URL_MAX_LENGTH = 2048;
+
+export interface ProfileUpdates {
+  display_name?: string; // Empty string clears it
+  avatar_url?: string; // http(s) URL; empty string clears it
+}
+
+/**
+ * Save changes to the current user and keep the auth state in sync
+ */
+async function updateCurrentUser(
+  userId: string,
+  updates: Partial<User>
+): Promise<Result<UserWithoutPassword, ArenaError>> {
+  const updatedUser = await getStateStore().updateUser(userId, updates);
+  if (!updatedUser) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'User not found',
+        ErrorCodes.USER_NOT_FOUND
+      ),
+    };
+  }
+
+  setCurrentUser(updatedUser);
+  return {
+    success: true,
+    data: updatedUser,
+  };
+}
+
+// ============================================================================
+// PROFILE FUNCTIONS
+// ============================================================================
+
+/**
+ * Update the current user's display name and/or avatar
+ */
+export async function updateProfile(
+  updates: ProfileUpdates
+): Promise<Result<UserWithoutPassword, ArenaError>> {
+  try {
+    const user = requireAuth();
+    const changes: Partial<User> = {};
+
+    if (updates.display_name !== undefined) {
+      const displayName = updates.display_name.trim();
+      if (displayName.length > DISPLAY_NAME_MAX_LENGTH) {
+        return {
+          success: false,
+          error: new ArenaError(
+            `Display name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters`,
+            ErrorCodes.INVALID_INPUT
+          ),
+        };
+      }
+      changes.display_name = displayName || undefined;
+    }
+
+    if (updates.avatar_url !== undefined) {
+      const avatarUrl = updates.avatar_url.trim();
+      if (
+        avatarUrl &&
+        (avatarUrl.length > AVATAR_URL_MAX_LENGTH || !/^https?:\/\/\S+$/i.test(avatarUrl))
+      ) {
+        return {
+          success: false,
+          error: new ArenaError(
+            'Avatar must be an http(s) URL',
+            ErrorCodes.INVALID_INPUT
+          ),
+        };
+      }
+      changes.avatar_url = avatarUrl || undefined;
+    }
+
+    return updateCurrentUser(user.id, changes);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to update profile',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Change the current user's username
+ * Same rules as signup: 3-20 characters, letters, numbers, _ and @, unique.
+ */
+export async function changeUsername(
+  newUsername: string
+): Promise<Result<UserWithoutPassword, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const user = requireAuth();
+
+    if (!newUsername) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Username is required',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    const usernameError = validateUsername(newUsername);
+    if (usernameError) {
+      return {
+        success: false,
+        error: usernameError,
+      };
+    }
+
+    const existingUser = await store.getUserByUsername(newUsername);
+    if (existingUser && existingUser.id !== user.id) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Username already taken',
+          ErrorCodes.USERNAME_EXISTS
+        ),
+      };
+    }
+
+    return updateCurrentUser(user.id, { username: newUsername });
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to change username',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Change the current user's email (requires their password)
+ * The new address starts unverified and a verification email is sent to it.
+ */
+export async function changeEmail(
+  newEmail: string,
+  password: string
+): Promise<Result<UserWithoutPassword, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const currentUser = requireAuth();
+
+    if (!newEmail || !password) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Email and password are required',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail)) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Invalid email address',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    const user = (await store.getUserById(currentUser.id)) || currentUser;
+    if ((await checkUserPassword(user.id, password)) === null) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Incorrect password',
+          ErrorCodes.INVALID_CREDENTIALS
+        ),
+      };
+    }
+
+    if (newEmail === user.email) {
+      return {
+        success: true,
+        data: user,
+      };
+    }
+
+    const existingUser = await store.getUserByEmail(newEmail);
+    if (existingUser) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Email already registered',
+          ErrorCodes.EMAIL_EXISTS
+        ),
+      };
+    }
+
+    const result = await updateCurrentUser(user.id, {
+      email: newEmail,
+      email_verified_at: undefined,
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    // The address change stands even if the email can't be sent right now
+    const verificationResult = await sendVerificationEmail();
+    if (!verificationResult.success) {
+      console.error('Error sending verification email:', verificationResult.error.message);
+    }
+
+    return result;
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to change email',
+        error.code || ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Get the profile other players can see
+ */
+export async function getPublicProfile(
+  userId: string
+): Promise<Result<PublicProfile, ArenaError>> {
+  try {
+    const user = await getStateStore().getUserById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User not found',
+          ErrorCodes.USER_NOT_FOUND
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        id: user.id,
+        username: user.username,
+        display_name: user.display_name,
+        avatar_url: user.avatar_url,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to get profile',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
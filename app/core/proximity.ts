@@ -1,22 +1,81 @@
 /**
  * Social Arena - Proximity-Based Capture Engine
  * 
- * Real-time proximity detection for Predators mode.
- * Automatically captures prey when hunters get close enough for long enough.
+ * Real-time proximity detection for every game mode.
+ * Each tick runs the arena's mode rules from the game mode registry,
+ * which capture (or infect) prey when hunters get close enough for long enough.
+ * Distances fuse GPS fixes with hunters' BLE scans (see fusion.ts).
  */
 
-import { Arena, ArenaParticipant } from './types';
-import { store } from './store';
-import { capturePrey } from './arenas';
+import { ArenaParticipant, ArenaSettings } from './types';
+import { getStateStore } from './store';
+import { getGameMode, getArenaSettings, ModeSettingsSchema } from './modes/registry';
+import type { SpecterHint } from './modes/specter';
+import { BleDistanceEstimate, getLatestBleEstimates, getBlePathLossModel } from './ble';
+import { FusedProximity, fuseProximity, getGpsInput, getBleInput } from './fusion';
+import {
+  ContactParams,
+  ContactSample,
+  ContactState,
+  createContactState,
+  stepContact,
+  CAPTURE_EXIT_MARGIN_METERS,
+  CAPTURE_DROPOUT_MS,
+  CAPTURE_MIN_SAMPLES,
+} from './contact';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
+// Defaults only - arenas can override these in their settings
 export const CAPTURE_DISTANCE_METERS = 2.5; // Distance required for capture
 export const CAPTURE_HOLD_MS = 1500; // Duration hunter must maintain proximity
 export const WARNING_DISTANCE_METERS = 10; // Distance for warning feedback
-export const PROXIMITY_CHECK_INTERVAL_MS = 1500; // Check every 1.5 seconds
+export const CAPTURE_CONFIDENCE_THRESHOLD = 0.8; // Fused confidence required to count as in range
+export const PROXIMITY_CHECK_INTERVAL_MS = 1000; // Check every second
+
+// Proximity settings shared by the built-in modes
+export const PROXIMITY_SETTINGS_SCHEMA: ModeSettingsSchema = {
+  capture_distance_meters: {
+    default: CAPTURE_DISTANCE_METERS,
+    min: 0.5,
+    max: 10,
+    description: 'Distance required for capture',
+  },
+  capture_hold_ms: {
+    default: CAPTURE_HOLD_MS,
+    min: 0,
+    max: 10000,
+    integer: true,
+    description: 'Duration a hunter must stay in capture range',
+  },
+  warning_distance_meters: {
+    default: WARNING_DISTANCE_METERS,
+    min: 1,
+    max: 100,
+    description: 'Distance for warning feedback',
+  },
+  capture_confidence_threshold: {
+    default: CAPTURE_CONFIDENCE_THRESHOLD,
+    min: 0.5,
+    max: 0.99,
+    description: 'Confidence (GPS + BLE) required to count as in capture range',
+  },
+  capture_exit_margin_meters: {
+    default: CAPTURE_EXIT_MARGIN_METERS,
+    min: 0,
+    max: 10,
+    description: 'Extra distance before a hold in progress breaks',
+  },
+  capture_dropout_ms: {
+    default: CAPTURE_DROPOUT_MS,
+    min: 0,
+    max: 10000,
+    integer: true,
+    description: 'Out-of-range or missing samples tolerated during a hold',
+  },
+};
 
 // ============================================================================
 // DISTANCE CALCULATION
@@ -55,18 +114,274 @@ function toRadians(degrees: number): number {
 // PROXIMITY TRACKING
 // ============================================================================
 
-interface HunterProximityState {
+export interface HunterProximityState {
   hunterId: string;
   closeContactStartTime: number | null; // Timestamp when hunter entered capture range
   lastDistance: number;
 }
 
+/**
+ * Check that a participant has reported a location
+ */
+export function hasCoordinates(participant: ArenaParticipant): boolean {
+  return (
+    participant.last_latitude !== undefined &&
+    participant.last_longitude !== undefined
+  );
+}
+
+/**
+ * Check whether a participant's GPS is quarantined by the anti-cheat
+ * Quarantined fixes still show on the map but do not count towards captures.
+ */
+export function isLocationQuarantined(participant: ArenaParticipant, now: number = Date.now()): boolean {
+  return (
+    participant.location_quarantined_until !== undefined &&
+    participant.location_quarantined_until.getTime() > now
+  );
+}
+
+/**
+ * Get when a participant's location fix was taken
+ * Fixes without a timestamp count as taken now.
+ */
+function getFixTime(participant: ArenaParticipant, now: number): number {
+  return participant.last_location_updated_at?.getTime() ?? now;
+}
+
+/**
+ * Hold timers per hunter/prey pair (see contact.ts for the rules)
+ * Mode rules feed proximity samples; pairs not sampled in a tick are dropped.
+ */
+export class ContactTimers {
+  private contacts: Map<string, ContactState> = new Map(); // key: `${hunterId}:${preyId}`
+  private params: ContactParams = {
+    enter_distance_meters: CAPTURE_DISTANCE_METERS,
+    exit_distance_meters: CAPTURE_DISTANCE_METERS + CAPTURE_EXIT_MARGIN_METERS,
+    confidence_threshold: CAPTURE_CONFIDENCE_THRESHOLD,
+    hold_ms: CAPTURE_HOLD_MS,
+    dropout_ms: CAPTURE_DROPOUT_MS,
+    min_samples: CAPTURE_MIN_SAMPLES,
+  };
+
+  /**
+   * Apply the arena's capture thresholds
+   */
+  configure(settings: ArenaSettings): void {
+    this.params = {
+      enter_distance_meters: settings.capture_distance_meters,
+      exit_distance_meters: settings.capture_distance_meters + settings.capture_exit_margin_meters,
+      confidence_threshold: settings.capture_confidence_threshold,
+      hold_ms: settings.capture_hold_ms,
+      dropout_ms: settings.capture_dropout_ms,
+      min_samples: CAPTURE_MIN_SAMPLES,
+    };
+  }
+
+  /**
+   * Record a proximity sample for a pair (e.g. a fused reading)
+   * Returns true once the pair has held capture range for the arena's hold time.
+   */
+  update(hunterId: string, preyId: string, sample: ContactSample): boolean {
+    const key = `${hunterId}:${preyId}`;
+    const step = stepContact(this.contacts.get(key) || createContactState(), sample, this.params);
+    this.contacts.set(key, step.state);
+    return step.held;
+  }
+
+  /**
+   * Get the sample time a pair entered capture range (null if not in range)
+   */
+  getContactStart(hunterId: string, preyId: string): number | null {
+    const contact = this.contacts.get(`${hunterId}:${preyId}`);
+    return contact ? contact.hold_started_at : null;
+  }
+
+  /**
+   * Get a pair's full contact state (for debugging)
+   */
+  getContactState(hunterId: string, preyId: string): ContactState | null {
+    return this.contacts.get(`${hunterId}:${preyId}`) || null;
+  }
+
+  /**
+   * Forget every pair involving a prey (captured, infected, ...)
+   */
+  clearPrey(preyId: string): void {
+    for (const key of Array.from(this.contacts.keys())) {
+      if (key.endsWith(`:${preyId}`)) {
+        this.contacts.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop pairs with a participant who is no longer playing
+   * Pairs without a reading this tick are kept: a missing sample is a
+   * dropout, and stepContact() ends the hold once the next sample shows
+   * the gap outlasted the dropout window.
+   */
+  prune(activeUserIds: Iterable<string>): void {
+    const active = new Set(activeUserIds);
+    for (const key of Array.from(this.contacts.keys())) {
+      const [hunterId, preyId] = key.split(':');
+      if (!active.has(hunterId) || !active.has(preyId)) {
+        this.contacts.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.contacts.clear();
+  }
+}
+
+/**
+ * Fused GPS + BLE proximity per hunter/prey pair
+ * Mode rules measure pairs through it each tick; the readings (with
+ * both inputs) are kept until the next tick for debugging.
+ */
+export class ProximitySensors {
+  private bleEstimates: Map<string, BleDistanceEstimate> = new Map(); // key: `${hunterId}:${preyId}`
+  private readings: Map<string, FusedProximity> = new Map(); // key: `${hunterId}:${preyId}`
+  private captureDistanceMeters = CAPTURE_DISTANCE_METERS;
+  private now = 0;
+
+  /**
+   * Apply the arena's capture distance
+   */
+  configure(settings: ArenaSettings): void {
+    this.captureDistanceMeters = settings.capture_distance_meters;
+  }
+
+  /**
+   * Start a tick with the latest BLE estimates
+   */
+  setBleEstimates(estimates: BleDistanceEstimate[], now: number): void {
+    this.now = now;
+    this.bleEstimates.clear();
+    this.readings.clear();
+    for (const estimate of estimates) {
+      this.bleEstimates.set(`${estimate.scanner_user_id}:${estimate.broadcaster_user_id}`, estimate);
+    }
+  }
+
+  /**
+   * Fuse the GPS distance and the hunter's BLE estimate for a pair
+   * Returns null when there is neither a pair of fixes nor a BLE estimate.
+   */
+  measure(hunter: ArenaParticipant, prey: ArenaParticipant): FusedProximity | null {
+    const gps =
+      hasCoordinates(hunter) &&
+      hasCoordinates(prey) &&
+      !isLocationQuarantined(hunter, this.now) &&
+      !isLocationQuarantined(prey, this.now)
+        ? getGpsInput(
+            calculateDistance(
+              prey.last_latitude!,
+              prey.last_longitude!,
+              hunter.last_latitude!,
+              hunter.last_longitude!
+            ),
+            Math.max(getFixTime(hunter, this.now), getFixTime(prey, this.now)),
+            hunter.last_location_accuracy_meters,
+            prey.last_location_accuracy_meters
+          )
+        : undefined;
+
+    const estimate = this.bleEstimates.get(`${hunter.user_id}:${prey.user_id}`);
+    const ble = estimate
+      ? getBleInput(estimate, this.now, getBlePathLossModel().path_loss_exponent)
+      : undefined;
+
+    const reading = fuseProximity(
+      hunter.user_id,
+      prey.user_id,
+      gps,
+      ble,
+      this.captureDistanceMeters
+    );
+    if (!reading) {
+      return null;
+    }
+
+    this.readings.set(`${hunter.user_id}:${prey.user_id}`, reading);
+    return reading;
+  }
+
+  getBleEstimate(hunterId: string, preyId: string): BleDistanceEstimate | null {
+    return this.bleEstimates.get(`${hunterId}:${preyId}`) || null;
+  }
+
+  getBleEstimates(): BleDistanceEstimate[] {
+    return Array.from(this.bleEstimates.values());
+  }
+
+  /**
+   * Get the last fused reading for a pair (this tick only)
+   */
+  getReading(hunterId: string, preyId: string): FusedProximity | null {
+    return this.readings.get(`${hunterId}:${preyId}`) || null;
+  }
+
+  getReadings(): FusedProximity[] {
+    return Array.from(this.readings.values());
+  }
+
+  clear(): void {
+    this.bleEstimates.clear();
+    this.readings.clear();
+  }
+}
+
+/**
+ * Feedback the mode rules publish for the UI after each tick
+ */
+export class ProximityFeedback {
+  hunterStates: Map<string, HunterProximityState> = new Map(); // Distance to the nearest target per hunter
+  preyDistances: Map<string, number> = new Map(); // Closest hunter per prey
+  preyHints: Map<string, SpecterHint> = new Map(); // Coarse hint per prey (hidden hunters)
+  hidesHunters = false; // Never report hunter distances to prey
+
+  /**
+   * Record a hunter's distance, keeping the nearest target
+   */
+  setHunterDistance(hunterId: string, distance: number, closeContactStartTime: number | null = null): void {
+    const state = this.hunterStates.get(hunterId);
+    if (!state || distance < state.lastDistance) {
+      this.hunterStates.set(hunterId, {
+        hunterId,
+        closeContactStartTime,
+        lastDistance: distance,
+      });
+    }
+  }
+
+  /**
+   * Record a prey's distance, keeping the closest hunter
+   */
+  setPreyDistance(preyId: string, distance: number): void {
+    const closest = this.preyDistances.get(preyId);
+    if (closest === undefined || distance < closest) {
+      this.preyDistances.set(preyId, distance);
+    }
+  }
+
+  clear(): void {
+    this.hunterStates.clear();
+    this.preyDistances.clear();
+    this.preyHints.clear();
+  }
+}
+
 class ProximityTracker {
   private arenaId: string;
-  private hunterStates: Map<string, HunterProximityState> = new Map();
+  private contacts = new ContactTimers();
+  private feedback = new ProximityFeedback();
+  private sensors = new ProximitySensors();
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
-  private captureFired = false; // Prevent multiple captures
+  private isChecking = false; // Prevent overlapping async checks
 
   constructor(arenaId: string) {
     this.arenaId = arenaId;
@@ -81,7 +396,6 @@ class ProximityTracker {
     }
 
     this.isRunning = true;
-    this.captureFired = false;
 
     // Initial check
     this.checkProximity();
@@ -101,144 +415,112 @@ class ProximityTracker {
       this.intervalId = null;
     }
     this.isRunning = false;
-    this.hunterStates.clear();
+    this.contacts.clear();
+    this.feedback.clear();
+    this.sensors.clear();
   }
 
   /**
    * Check proximity between all hunters and prey
    */
-  private checkProximity(): void {
-    // Safety: Don't check if capture already fired
-    if (this.captureFired) {
+  private async checkProximity(): Promise<void> {
+    // Safety: Don't check if stopped or a check is in flight
+    if (!this.isRunning || this.isChecking) {
       return;
     }
 
-    // Get arena
-    const arena = store.getArenaById(this.arenaId);
-    if (!arena || arena.status !== 'active' || arena.mode !== 'predators') {
-      this.stop();
-      return;
+    this.isChecking = true;
+    try {
+      await this.evaluateProximity();
+    } catch (error) {
+      console.error('Error checking proximity:', error);
+    } finally {
+      this.isChecking = false;
     }
+  }
 
-    // Get participants
-    const participants = store.getArenaParticipants(this.arenaId);
-    const joinedParticipants = participants.filter((p) => p.status === 'joined');
+  private async evaluateProximity(): Promise<void> {
+    const store = getStateStore();
 
-    // Find prey
-    const prey = joinedParticipants.find((p) => p.role === 'prey');
-    if (!prey) {
-      // No prey, skip check
-      return;
-    }
-
-    // Safety: Prey must have valid coordinates
-    if (
-      prey.last_latitude === undefined ||
-      prey.last_longitude === undefined
-    ) {
+    // Get arena and its mode rules
+    const arena = await store.getArenaById(this.arenaId);
+    const definition = arena ? getGameMode(arena.mode) : undefined;
+    if (!arena || arena.status !== 'active' || !definition) {
+      this.stop();
       return;
     }
 
-    // Find all hunters
-    const hunters = joinedParticipants.filter((p) => p.role === 'hunter');
-
-    // Check each hunter's proximity to prey
-    for (const hunter of hunters) {
-      // Safety: Hunter must have valid coordinates
-      if (
-        hunter.last_latitude === undefined ||
-        hunter.last_longitude === undefined
-      ) {
-        // Reset this hunter's state if no coordinates
-        this.hunterStates.delete(hunter.user_id);
-        continue;
-      }
-
-      // Calculate distance
-      const distance = calculateDistance(
-        prey.last_latitude,
-        prey.last_longitude,
-        hunter.last_latitude,
-        hunter.last_longitude
-      );
-
-      // Update hunter state
-      let hunterState = this.hunterStates.get(hunter.user_id);
-      if (!hunterState) {
-        hunterState = {
-          hunterId: hunter.user_id,
-          closeContactStartTime: null,
-          lastDistance: distance,
-        };
-        this.hunterStates.set(hunter.user_id, hunterState);
-      }
+    // Get participants
+    const participants = await store.getArenaParticipants(this.arenaId);
+    const joinedParticipants = participants.filter((p) => p.status === 'joined');
 
-      hunterState.lastDistance = distance;
-
-      // Check if within capture distance
-      if (distance <= CAPTURE_DISTANCE_METERS) {
-        // Hunter is in capture range
-        const now = Date.now();
-
-        if (hunterState.closeContactStartTime === null) {
-          // Just entered capture range - start timer
-          hunterState.closeContactStartTime = now;
-        } else {
-          // Already in range - check if held long enough
-          const holdDuration = now - hunterState.closeContactStartTime;
-          if (holdDuration >= CAPTURE_HOLD_MS) {
-            // Capture condition met!
-            this.fireCapture(hunter.user_id, prey.user_id);
-            return; // Exit after capture
-          }
-        }
-      } else {
-        // Hunter moved out of capture range - reset timer
-        hunterState.closeContactStartTime = null;
-      }
+    const settings = getArenaSettings(arena);
+    this.contacts.configure(settings);
+    this.sensors.configure(settings);
+
+    const now = Date.now();
+    this.sensors.setBleEstimates(await getLatestBleEstimates(this.arenaId, now), now);
+
+    const result = await definition.tick({
+      arena,
+      settings,
+      participants: joinedParticipants,
+      now,
+      contacts: this.contacts,
+      sensors: this.sensors,
+      feedback: this.feedback,
+    });
+    this.contacts.prune(joinedParticipants.map(p => p.user_id));
+
+    if (result === 'stop') {
+      this.stop();
     }
   }
 
   /**
-   * Fire capture event
+   * Get the latest BLE distance estimate for a hunter/prey pair
    */
-  private fireCapture(hunterId: string, preyId: string): void {
-    if (this.captureFired) {
-      return; // Already captured
-    }
+  getBleEstimate(hunterId: string, preyId: string): BleDistanceEstimate | null {
+    return this.sensors.getBleEstimate(hunterId, preyId);
+  }
 
-    this.captureFired = true;
-    this.stop(); // Stop monitoring
+  /**
+   * Get every current BLE distance estimate
+   */
+  getBleEstimates(): BleDistanceEstimate[] {
+    return this.sensors.getBleEstimates();
+  }
 
-    try {
-      // Call capture function
-      const result = capturePrey(this.arenaId, preyId, hunterId);
-      if (!result.success) {
-        console.error('Capture failed:', result.error.message);
-        // Reset capture flag to allow retry
-        this.captureFired = false;
-      }
-    } catch (error) {
-      console.error('Error firing capture:', error);
-      // Reset capture flag to allow retry
-      this.captureFired = false;
-    }
+  /**
+   * Get the fused readings from the last check, with their GPS and BLE inputs
+   */
+  getFusedReadings(): FusedProximity[] {
+    return this.sensors.getReadings();
   }
 
   /**
    * Get proximity state for a specific hunter
    */
   getHunterProximityState(hunterId: string): HunterProximityState | null {
-    return this.hunterStates.get(hunterId) || null;
+    return this.feedback.hunterStates.get(hunterId) || null;
   }
 
   /**
    * Get closest hunter distance to prey
+   * Pass preyId in modes with several prey.
    */
-  getClosestHunterDistance(): number | null {
+  getClosestHunterDistance(preyId?: string): number | null {
+    if (this.feedback.hidesHunters) {
+      return null;
+    }
+
+    if (preyId !== undefined && this.feedback.preyDistances.size > 0) {
+      return this.feedback.preyDistances.get(preyId) ?? null;
+    }
+
     let minDistance: number | null = null;
 
-    for (const state of this.hunterStates.values()) {
+    for (const state of this.feedback.hunterStates.values()) {
       if (minDistance === null || state.lastDistance < minDistance) {
         minDistance = state.lastDistance;
       }
@@ -251,9 +533,16 @@ class ProximityTracker {
    * Get distance from a specific hunter to prey
    */
   getHunterDistance(hunterId: string): number | null {
-    const state = this.hunterStates.get(hunterId);
+    const state = this.feedback.hunterStates.get(hunterId);
     return state ? state.lastDistance : null;
   }
+
+  /**
+   * Get the coarse hint for a prey (modes with hidden hunters only)
+   */
+  getSpecterHint(preyId: string): SpecterHint | null {
+    return this.feedback.preyHints.get(preyId) || null;
+  }
 }
 
 // ============================================================================
@@ -307,8 +596,44 @@ export function getHunterDistance(
 /**
  * Get closest hunter distance to prey
  */
-export function getClosestHunterDistance(arenaId: string): number | null {
+export function getClosestHunterDistance(
+  arenaId: string,
+  preyId?: string
+): number | null {
+  const tracker = getProximityTracker(arenaId);
+  return tracker ? tracker.getClosestHunterDistance(preyId) : null;
+}
+
+/**
+ * Get the coarse specter hint for a prey
+ * Returns null outside specter mode or before the first check.
+ */
+export function getSpecterProximityHint(
+  arenaId: string,
+  preyId: string
+): SpecterHint | null {
   const tracker = getProximityTracker(arenaId);
-  return tracker ? tracker.getClosestHunterDistance() : null;
+  return tracker ? tracker.getSpecterHint(preyId) : null;
 }
 
+/**
+ * Get the latest BLE distance estimate from a hunter to a prey
+ * Returns null without a tracker or a recent reading.
+ */
+export function getBleDistanceEstimate(
+  arenaId: string,
+  hunterId: string,
+  preyId: string
+): BleDistanceEstimate | null {
+  const tracker = getProximityTracker(arenaId);
+  return tracker ? tracker.getBleEstimate(hunterId, preyId) : null;
+}
+
+/**
+ * Get the fused proximity readings from an arena's last check (for debugging)
+ * Each reading includes the GPS and BLE inputs it was built from.
+ */
+export function getProximityDebugReadings(arenaId: string): FusedProximity[] {
+  const tracker = getProximityTracker(arenaId);
+  return tracker ? tracker.getFusedReadings() : [];
+}
@@ -1,21 +1,53 @@
 /**
  * Social Arena - Rooms Domain Layer
- * 
+ *
  * Handles room CRUD and membership management.
  * Server-authoritative design.
- * Now backed by Supabase for cross-device multiplayer.
+ * Persists through the active StateStore (Supabase for cross-device multiplayer).
  */
 
 import {
   Room,
   RoomMember,
+  RoomRole,
+  RoomBan,
+  RoomInvite,
+  RoomWithMemberCount,
+  PublicRoomFilter,
   Result,
   ArenaError,
   ErrorCodes,
 } from './types';
-import { supabase } from '../lib/supabase';
-import { getDeviceId } from '../lib/deviceId';
-import { store } from './store';
+import { getCurrentUserId } from './auth';
+import { getStateStore } from './store';
+import { publishArenaEvent } from './events';
+import { getGameMode } from './modes/registry';
+import { toBase64Url, randomBytes } from '../lib/crypto';
+
+export const PUBLIC_ROOMS_DEFAULT_LIMIT = 20;
+export const PUBLIC_ROOMS_MAX_LIMIT = 50;
+
+export interface PublicRoomQuery extends PublicRoomFilter {
+  limit?: number; // Default PUBLIC_ROOMS_DEFAULT_LIMIT, at most PUBLIC_ROOMS_MAX_LIMIT
+  offset?: number;
+}
+
+export interface PublicRoomPage {
+  rooms: RoomWithMemberCount[];
+  total: number; // Matches before pagination
+  has_more: boolean;
+}
+
+export const INVITE_LINK_PREFIX = 'socialarena://invite/';
+export const INVITE_DEFAULT_TTL_HOURS = 7 * 24;
+export const INVITE_MAX_TTL_HOURS = 30 * 24;
+
+const INVITE_TOKEN_BYTES = 16;
+
+export interface CreateInviteOptions {
+  expires_in_hours?: number | null; // Default INVITE_DEFAULT_TTL_HOURS; null never expires
+  max_uses?: number; // Unlimited if unset
+}
 
 // ============================================================================
 // ROOM CODE GENERATION
@@ -27,54 +59,177 @@ import { store } from './store';
 function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Exclude ambiguous chars (0, O, I, 1)
   const length = 6; // 6 characters
-  
+
   let code = '';
   for (let i = 0; i < length; i++) {
     code += chars.charAt(Math.floor(Math.random() * chars.length));
   }
-  
+
   return code;
 }
 
 /**
- * Generate a unique room code that doesn't exist yet (checks Supabase)
+ * Generate a unique room code that doesn't exist yet
  */
 async function generateUniqueRoomCode(): Promise<string> {
+  const store = getStateStore();
   let attempts = 0;
   const maxAttempts = 100;
-  
+
   while (attempts < maxAttempts) {
     const code = generateRoomCode();
-    // Check if code exists in Supabase
-    const { data, error } = await supabase
-      .from('rooms')
-      .select('id')
-      .eq('code', code)
-      .single();
-    
-    if (error && error.code === 'PGRST116') {
-      // No rows returned - code is available
-      return code;
-    }
-    
-    if (!data) {
+    const existing = await store.getRoomByRoomCode(code);
+    if (!existing) {
       // Code doesn't exist
       return code;
     }
-    
+
     attempts++;
   }
-  
+
   // Fallback: use timestamp-based code if too many collisions
   return `A${Date.now().toString(36).toUpperCase().slice(-5)}`;
 }
 
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+export type RoomCapability =
+  | 'rename_room'
+  | 'rotate_code'
+  | 'delete_room'
+  | 'create_arena'
+  | 'manage_roles'
+  | 'transfer_ownership'
+  | 'set_visibility'
+  | 'create_invite'
+  | 'manage_invites'
+  | 'kick_members'
+  | 'ban_members';
+
+/**
+ * Which roles hold each capability, and the error shown to everyone else
+ */
+const ROOM_CAPABILITY_RULES: Record<RoomCapability, { roles: RoomRole[]; denied: string }> = {
+  rename_room: {
+    roles: ['owner', 'admin'],
+    denied: 'Only the room owner or admins can update the room name',
+  },
+  rotate_code: {
+    roles: ['owner', 'admin'],
+    denied: 'Only the room owner or admins can rotate the room code',
+  },
+  delete_room: {
+    roles: ['owner'],
+    denied: 'Only the room owner can delete the room',
+  },
+  create_arena: {
+    roles: ['owner', 'admin', 'member'],
+    denied: 'Your role cannot create arenas in this room',
+  },
+  manage_roles: {
+    roles: ['owner'],
+    denied: 'Only the room owner can change member roles',
+  },
+  transfer_ownership: {
+    roles: ['owner'],
+    denied: 'Only the room owner can transfer ownership',
+  },
+  set_visibility: {
+    roles: ['owner'],
+    denied: 'Only the room owner can change room visibility',
+  },
+  create_invite: {
+    roles: ['owner', 'admin', 'member'],
+    denied: 'Only room members can create invites',
+  },
+  manage_invites: {
+    roles: ['owner', 'admin'],
+    denied: 'Only the room owner or admins can manage other members\' invites',
+  },
+  kick_members: {
+    roles: ['owner', 'admin'],
+    denied: 'Only the room owner or admins can remove members',
+  },
+  ban_members: {
+    roles: ['owner', 'admin'],
+    denied: 'Only the room owner or admins can ban members',
+  },
+};
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+/**
+ * Check whether a role holds a capability (no store access, for UI)
+ */
+export function roleCan(role: RoomRole | null | undefined, capability: RoomCapability): boolean {
+  return !!role && ROOM_CAPABILITY_RULES[capability].roles.includes(role);
+}
+
+/**
+ * Get a user's role in a room, or null if they are not a member
+ * room.owner_id is authoritative for the owner.
+ */
+export async function getRoomRole(room: Room, userId: string): Promise<RoomRole | null> {
+  if (room.owner_id === userId) {
+    return 'owner';
+  }
+  const member = await getStateStore().getRoomMember(room.id, userId);
+  if (!member) {
+    return null;
+  }
+  return member.role === 'owner' ? 'admin' : member.role || 'member'; // Stale owner rows rank as admin
+}
+
+/**
+ * Check a capability, returning the error to report when it is missing
+ */
+export async function checkRoomCapability(
+  room: Room,
+  userId: string,
+  capability: RoomCapability
+): Promise<ArenaError | null> {
+  const role = await getRoomRole(room, userId);
+  if (!role) {
+    return new ArenaError(
+      'User is not a member of this room',
+      ErrorCodes.NOT_MEMBER
+    );
+  }
+
+  if (!roleCan(role, capability)) {
+    return new ArenaError(
+      ROOM_CAPABILITY_RULES[capability].denied,
+      ErrorCodes.INSUFFICIENT_ROLE
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a user may do something in a room
+ */
+export async function can(
+  userId: string,
+  roomId: string,
+  capability: RoomCapability
+): Promise<boolean> {
+  const room = await getStateStore().getRoomById(roomId);
+  return !!room && (await checkRoomCapability(room, userId, capability)) === null;
+}
+
 // ============================================================================
 // ROOM FUNCTIONS
 // ============================================================================
 
 /**
- * Create a new room (Supabase-backed)
+ * Create a new room
  */
 export async function createRoom(
   name: string,
@@ -83,7 +238,8 @@ export async function createRoom(
   maxMembers?: number
 ): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
     // Validation
     if (!name || name.trim().length === 0) {
@@ -108,64 +264,28 @@ export async function createRoom(
 
     // Generate unique room code
     const roomCode = await generateUniqueRoomCode();
-    const normalizedCode = roomCode.toUpperCase();
-
-    // Default values for required fields
-    const mode = 'predators'; // Default mode
-    const maxPlayers = maxMembers || 10; // Default max players
-
-    // Insert room into Supabase
-    const { data: roomData, error: roomError } = await supabase
-      .from('rooms')
-      .insert({
-        code: normalizedCode,
-        host_id: userId,
-        mode: mode,
-        max_players: maxPlayers,
-        name: name.trim(),
-        description: description?.trim() || null,
-      })
-      .select()
-      .single();
-
-    if (roomError) {
-      console.error('Error creating room:', roomError);
-      return {
-        success: false,
-        error: new ArenaError(
-          'Failed to create room',
-          ErrorCodes.INVALID_INPUT
-        ),
-      };
-    }
+
+    const room = await store.createRoom({
+      name: name.trim(),
+      description: description?.trim() || undefined,
+      owner_id: userId,
+      roomCode: roomCode.toUpperCase(),
+      is_public: isPublic,
+      max_members: maxMembers || 10, // Default max players
+    });
 
     // Add creator as owner member
-    const { error: memberError } = await supabase
-      .from('room_members')
-      .insert({
-        room_id: roomData.id,
+    try {
+      await store.addRoomMember({
+        room_id: room.id,
         user_id: userId,
         role: 'owner',
       });
-
-    if (memberError) {
+    } catch (memberError) {
       console.error('Error adding room member:', memberError);
       // Room was created but member wasn't added - still return success
     }
 
-    // Map Supabase room to Room type
-    const room: Room = {
-      id: roomData.id,
-      name: name.trim(),
-      description: description?.trim(),
-      owner_id: userId,
-      roomCode: normalizedCode,
-      is_public: isPublic,
-      max_members: maxPlayers,
-      created_at: new Date(roomData.created_at),
-      updated_at: new Date(roomData.created_at),
-    };
-
     return {
       success: true,
       data: room,
@@ -184,62 +304,14 @@ export async function createRoom(
 
 /**
  * Get room by ID
- * Note: This still uses in-memory store for backward compatibility
- * For Supabase rooms, use getRoomByCode() instead
  * Requires user to be a member of the room
  */
 export async function getRoom(roomId: string): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
-
-    // Try Supabase first
-    const { data: roomData, error } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('id', roomId)
-      .single();
-
-    if (roomData && !error) {
-      // Check if user is a member of this room
-      const { data: memberData } = await supabase
-        .from('room_members')
-        .select('id')
-        .eq('room_id', roomId)
-        .eq('user_id', userId)
-        .single();
-
-      const isMember = memberData || store.isRoomMember(roomId, userId);
-      
-      if (!isMember) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'You are not a member of this room',
-            ErrorCodes.NOT_MEMBER
-          ),
-        };
-      }
-
-      // Map Supabase room to Room type
-      const room: Room = {
-        id: roomData.id,
-        name: roomData.name || `Room ${roomData.code}`,
-        description: roomData.description || undefined,
-        owner_id: roomData.host_id,
-        roomCode: roomData.code,
-        is_public: false,
-        max_members: roomData.max_players,
-        created_at: new Date(roomData.created_at),
-        updated_at: new Date(roomData.created_at),
-      };
-      return {
-        success: true,
-        data: room,
-      };
-    }
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
-    // Fallback to in-memory store for backward compatibility
-    let room = store.getRoomById(roomId);
+    const room = await store.getRoomById(roomId);
     if (!room) {
       return {
         success: false,
@@ -250,9 +322,8 @@ export async function getRoom(roomId: string): Promise<Result<Room, ArenaError>>
       };
     }
 
-    // Check membership for in-memory rooms too
-    const isMember = store.isRoomMember(roomId, userId);
-    if (!isMember) {
+    // Check if user is a member of this room
+    if (!(await store.isRoomMember(roomId, userId))) {
       return {
         success: false,
         error: new ArenaError(
@@ -278,67 +349,13 @@ export async function getRoom(roomId: string): Promise<Result<Room, ArenaError>>
 }
 
 /**
- * Get all rooms for current user (Supabase-backed)
+ * Get all rooms for current user
  */
 export async function getUserRooms(): Promise<Result<Room[], ArenaError>> {
   try {
-    const userId = await getDeviceId();
-
-    // Get all rooms where user is a member
-    const { data: members, error: membersError } = await supabase
-      .from('room_members')
-      .select('room_id')
-      .eq('user_id', userId);
-
-    if (membersError) {
-      console.error('Error getting user rooms:', membersError);
-      return {
-        success: false,
-        error: new ArenaError(
-          'Failed to get rooms',
-          ErrorCodes.INVALID_INPUT
-        ),
-      };
-    }
-
-    if (!members || members.length === 0) {
-      return {
-        success: true,
-        data: [],
-      };
-    }
-
-    // Get room details for each room_id
-    const roomIds = members.map(m => m.room_id);
-    const { data: roomsData, error: roomsError } = await supabase
-      .from('rooms')
-      .select('*')
-      .in('id', roomIds);
-
-    if (roomsError) {
-      console.error('Error getting room details:', roomsError);
-      return {
-        success: false,
-        error: new ArenaError(
-          'Failed to get room details',
-          ErrorCodes.INVALID_INPUT
-        ),
-      };
-    }
-
-    // Map Supabase rooms to Room type
-    const rooms: Room[] = (roomsData || []).map(roomData => ({
-      id: roomData.id,
-      name: roomData.name || `Room ${roomData.code}`,
-      description: roomData.description || undefined,
-      owner_id: roomData.host_id,
-      roomCode: roomData.code,
-      is_public: false,
-      max_members: roomData.max_players,
-      created_at: new Date(roomData.created_at),
-      updated_at: new Date(roomData.created_at),
-    }));
+    const userId = await getCurrentUserId();
 
+    const rooms = await getStateStore().getRoomsByUserId(userId);
     return {
       success: true,
       data: rooms,
@@ -357,102 +374,13 @@ export async function getUserRooms(): Promise<Result<Room[], ArenaError>> {
 
 /**
  * Join a room
- * Note: This still uses in-memory store for backward compatibility
- * For Supabase rooms, use joinRoomByCode() instead
  */
 export async function joinRoom(roomId: string): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
-
-    // Try Supabase first
-    const { data: roomData, error: roomError } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('id', roomId)
-      .single();
-
-    if (roomData && !roomError) {
-      // Check if already a member
-      const { data: existingMember } = await supabase
-        .from('room_members')
-        .select('id')
-        .eq('room_id', roomId)
-        .eq('user_id', userId)
-        .single();
-
-      if (existingMember) {
-        const room: Room = {
-          id: roomData.id,
-          name: roomData.name || `Room ${roomData.code}`,
-          description: roomData.description || undefined,
-          owner_id: roomData.host_id,
-          roomCode: roomData.code,
-          is_public: false,
-          max_members: roomData.max_players,
-          created_at: new Date(roomData.created_at),
-          updated_at: new Date(roomData.created_at),
-        };
-        return {
-          success: true,
-          data: room,
-        };
-      }
-
-      // Check room capacity
-      const { data: members } = await supabase
-        .from('room_members')
-        .select('id')
-        .eq('room_id', roomId);
-
-      if (roomData.max_players && members && members.length >= roomData.max_players) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Room is full',
-            ErrorCodes.ROOM_FULL
-          ),
-        };
-      }
-
-      // Add user as member
-      const { error: insertError } = await supabase
-        .from('room_members')
-        .insert({
-          room_id: roomId,
-          user_id: userId,
-          role: 'member',
-        });
-
-      if (insertError && insertError.code !== '23505') {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Failed to join room',
-            ErrorCodes.INVALID_INPUT
-          ),
-        };
-      }
-
-      const room: Room = {
-        id: roomData.id,
-        name: roomData.name || `Room ${roomData.code}`,
-        description: roomData.description || undefined,
-        owner_id: roomData.host_id,
-        roomCode: roomData.code,
-        is_public: false,
-        max_members: roomData.max_players,
-        created_at: new Date(roomData.created_at),
-        updated_at: new Date(roomData.created_at),
-      };
-
-      return {
-        success: true,
-        data: room,
-      };
-    }
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
-    // Fallback to in-memory store
-    const room = store.getRoomById(roomId);
+    const room = await store.getRoomById(roomId);
     if (!room) {
       return {
         success: false,
@@ -463,48 +391,7 @@ export async function joinRoom(roomId: string): Promise<Result<Room, ArenaError>
       };
     }
 
-    // Check if already a member
-    if (store.isRoomMember(roomId, userId)) {
-      return {
-        success: true,
-        data: room,
-      };
-    }
-
-    // Check room capacity
-    if (room.max_members) {
-      const currentMembers = store.getRoomMembers(roomId);
-      if (currentMembers.length >= room.max_members) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Room is full',
-            ErrorCodes.ROOM_FULL
-          ),
-        };
-      }
-    }
-
-    // Add user as member
-    try {
-      store.addRoomMember({
-        room_id: roomId,
-        user_id: userId,
-        role: 'member',
-        joined_at: new Date(),
-      });
-    } catch (error) {
-      // Already a member
-      return {
-        success: true,
-        data: room,
-      };
-    }
-
-    return {
-      success: true,
-      data: room,
-    };
+    return await addMemberToRoom(room, userId);
   } catch (error: any) {
     return {
       success: false,
@@ -522,19 +409,11 @@ export async function joinRoom(roomId: string): Promise<Result<Room, ArenaError>
  */
 export async function getRoomMembers(roomId: string): Promise<Result<RoomMember[], ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
     // Check membership first
-    const { data: memberData } = await supabase
-      .from('room_members')
-      .select('id')
-      .eq('room_id', roomId)
-      .eq('user_id', userId)
-      .single();
-
-    const isMember = memberData || store.isRoomMember(roomId, userId);
-    
-    if (!isMember) {
+    if (!(await store.isRoomMember(roomId, userId))) {
       return {
         success: false,
         error: new ArenaError(
@@ -544,41 +423,7 @@ export async function getRoomMembers(roomId: string): Promise<Result<RoomMember[
       };
     }
 
-    // Try Supabase first
-    const { data: membersData, error } = await supabase
-      .from('room_members')
-      .select('*')
-      .eq('room_id', roomId);
-
-    if (membersData && !error) {
-      // Map Supabase members to RoomMember type
-      const members: RoomMember[] = membersData.map(m => ({
-        id: m.id,
-        room_id: m.room_id,
-        user_id: m.user_id,
-        role: m.role as 'owner' | 'admin' | 'member',
-        joined_at: new Date(m.created_at),
-      }));
-
-      return {
-        success: true,
-        data: members,
-      };
-    }
-
-    // Fallback to in-memory store
-    const room = store.getRoomById(roomId);
-    if (!room) {
-      return {
-        success: false,
-        error: new ArenaError(
-          'Room not found',
-          ErrorCodes.ROOM_NOT_FOUND
-        ),
-      };
-    }
-
-    const members = store.getRoomMembers(roomId);
+    const members = await store.getRoomMembers(roomId);
     return {
       success: true,
       data: members,
@@ -597,15 +442,15 @@ export async function getRoomMembers(roomId: string): Promise<Result<RoomMember[
 /**
  * Check if user is a member of a room
  */
-export function isRoomMember(roomId: string, userId: string): boolean {
-  return store.isRoomMember(roomId, userId);
+export async function isRoomMember(roomId: string, userId: string): Promise<boolean> {
+  return await getStateStore().isRoomMember(roomId, userId);
 }
 
 /**
  * Require room membership (throws if not a member)
  */
-export function requireRoomMembership(roomId: string, userId: string): void {
-  if (!store.isRoomMember(roomId, userId)) {
+export async function requireRoomMembership(roomId: string, userId: string): Promise<void> {
+  if (!(await getStateStore().isRoomMember(roomId, userId))) {
     throw new ArenaError(
       'User is not a member of this room',
       ErrorCodes.NOT_MEMBER
@@ -614,7 +459,7 @@ export function requireRoomMembership(roomId: string, userId: string): void {
 }
 
 /**
- * Get room by room code (Supabase-backed)
+ * Get room by room code
  */
 export async function getRoomByCode(roomCode: string): Promise<Result<Room, ArenaError>> {
   try {
@@ -629,14 +474,8 @@ export async function getRoomByCode(roomCode: string): Promise<Result<Room, Aren
       };
     }
 
-    // Query Supabase for room by code
-    const { data: roomData, error } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('code', normalizedCode)
-      .single();
-
-    if (error || !roomData) {
+    const room = await getStateStore().getRoomByRoomCode(normalizedCode);
+    if (!room) {
       console.log('[getRoomByCode] Room not found for code:', normalizedCode);
       return {
         success: false,
@@ -647,19 +486,6 @@ export async function getRoomByCode(roomCode: string): Promise<Result<Room, Aren
       };
     }
 
-    // Map Supabase room to Room type
-    const room: Room = {
-      id: roomData.id,
-      name: roomData.name || `Room ${roomData.code}`,
-      description: roomData.description || undefined,
-      owner_id: roomData.host_id,
-      roomCode: roomData.code,
-      is_public: false,
-      max_members: roomData.max_players,
-      created_at: new Date(roomData.created_at),
-      updated_at: new Date(roomData.created_at),
-    };
-
     return {
       success: true,
       data: room,
@@ -677,83 +503,20 @@ export async function getRoomByCode(roomCode: string): Promise<Result<Room, Aren
 }
 
 /**
- * Join room by room code (Supabase-backed)
+ * Join room by room code
  */
 export async function joinRoomByCode(roomCode: string): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
 
     // Get room by code
     const roomResult = await getRoomByCode(roomCode);
     if (!roomResult.success) {
-      console.log('[joinRoomByCode] Failed to find room by code:', roomCode, roomResult.error);
+      console.log('[joinRoomByCode] Failed to find room by code:', roomCode);
       return roomResult;
     }
 
-    const room = roomResult.data;
-
-    // Check if already a member
-    const { data: existingMember } = await supabase
-      .from('room_members')
-      .select('id')
-      .eq('room_id', room.id)
-      .eq('user_id', userId)
-      .single();
-
-    if (existingMember) {
-      return {
-        success: true,
-        data: room, // Already a member, return success
-      };
-    }
-
-    // Check room capacity
-    const { data: members, error: membersError } = await supabase
-      .from('room_members')
-      .select('id')
-      .eq('room_id', room.id);
-
-    if (room.max_members && members && members.length >= room.max_members) {
-      return {
-        success: false,
-        error: new ArenaError(
-          'Room is full',
-          ErrorCodes.ROOM_FULL
-        ),
-      };
-    }
-
-    // Add user as member
-    const { error: insertError } = await supabase
-      .from('room_members')
-      .insert({
-        room_id: room.id,
-        user_id: userId,
-        role: 'member',
-      });
-
-    if (insertError) {
-      // Check if it's a unique constraint violation (already a member)
-      if (insertError.code === '23505') {
-        return {
-          success: true,
-          data: room,
-        };
-      }
-      console.error('Error adding room member:', insertError);
-      return {
-        success: false,
-        error: new ArenaError(
-          'Failed to join room',
-          ErrorCodes.INVALID_INPUT
-        ),
-      };
-    }
-
-    return {
-      success: true,
-      data: room,
-    };
+    return await addMemberToRoom(roomResult.data, userId);
   } catch (error: any) {
     console.error('Error in joinRoomByCode:', error);
     return {
@@ -768,14 +531,15 @@ export async function joinRoomByCode(roomCode: string): Promise<Result<Room, Are
 
 /**
  * Update room name
- * Only the owner can update the room name
+ * Requires the rename_room capability (owner or admin)
  */
 export async function updateRoomName(
   roomId: string,
   newName: string
 ): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
     // Validation
     if (!newName || newName.trim().length === 0) {
@@ -798,63 +562,7 @@ export async function updateRoomName(
       };
     }
 
-    // Try Supabase first
-    const { data: roomData, error: roomError } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('id', roomId)
-      .single();
-
-    if (roomData && !roomError) {
-      // Check if user is owner
-      if (roomData.host_id !== userId) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Only the room owner can update the room name',
-            ErrorCodes.NOT_HOST
-          ),
-        };
-      }
-
-      // Update room in Supabase
-      const { data: updatedData, error: updateError } = await supabase
-        .from('rooms')
-        .update({ name: newName.trim() })
-        .eq('id', roomId)
-        .select()
-        .single();
-
-      if (updateError || !updatedData) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Failed to update room name',
-            ErrorCodes.INVALID_INPUT
-          ),
-        };
-      }
-
-      const room: Room = {
-        id: updatedData.id,
-        name: updatedData.name || `Room ${updatedData.code}`,
-        description: updatedData.description || undefined,
-        owner_id: updatedData.host_id,
-        roomCode: updatedData.code,
-        is_public: false,
-        max_members: updatedData.max_players,
-        created_at: new Date(updatedData.created_at),
-        updated_at: new Date(updatedData.created_at),
-      };
-
-      return {
-        success: true,
-        data: room,
-      };
-    }
-
-    // Fallback to in-memory store
-    const room = store.getRoomById(roomId);
+    const room = await store.getRoomById(roomId);
     if (!room) {
       return {
         success: false,
@@ -865,19 +573,16 @@ export async function updateRoomName(
       };
     }
 
-    // Check if user is owner
-    if (room.owner_id !== userId) {
+    const permissionError = await checkRoomCapability(room, userId, 'rename_room');
+    if (permissionError) {
       return {
         success: false,
-        error: new ArenaError(
-          'Only the room owner can update the room name',
-          ErrorCodes.NOT_HOST
-        ),
+        error: permissionError,
       };
     }
 
     // Update room
-    const updated = store.updateRoom(roomId, {
+    const updated = await store.updateRoom(roomId, {
       name: newName.trim(),
     });
 
@@ -908,177 +613,1081 @@ export async function updateRoomName(
 
 /**
  * Rotate/regenerate room code
- * Only the owner can rotate the room code
+ * Requires the rotate_code capability (owner or admin)
  */
 export async function rotateRoomCode(roomId: string): Promise<Result<Room, ArenaError>> {
   try {
-    const userId = await getDeviceId();
-
-    // Try Supabase first
-    const { data: roomData, error: roomError } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('id', roomId)
-      .single();
-
-    if (roomData && !roomError) {
-      // Check if user is owner
-      if (roomData.host_id !== userId) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Only the room owner can rotate the room code',
-            ErrorCodes.NOT_HOST
-          ),
-        };
-      }
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
-      // Generate new unique room code
-      const newCode = await generateUniqueRoomCode();
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
 
-      // Update room code in Supabase
-      const { data: updatedData, error: updateError } = await supabase
-        .from('rooms')
-        .update({ code: newCode })
-        .eq('id', roomId)
-        .select()
-        .single();
+    const permissionError = await checkRoomCapability(room, userId, 'rotate_code');
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
 
-      if (updateError || !updatedData) {
+    // Generate new unique room code
+    const newCode = await generateUniqueRoomCode();
+
+    // Update room code
+    const updated = await store.updateRoom(roomId, {
+      roomCode: newCode,
+    });
+
+    if (!updated) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to rotate room code',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to rotate room code',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Delete a room
+ * Only the owner can delete the room
+ */
+export async function deleteRoom(roomId: string): Promise<Result<void, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    const permissionError = await checkRoomCapability(room, userId, 'delete_room');
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    // Delete room (this will cascade delete members and arenas)
+    const deleted = await store.deleteRoom(roomId);
+    if (!deleted) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to delete room',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to delete room',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Add a user to a room as a regular member
+ * Idempotent: returns success if the user is already a member
+ */
+async function addMemberToRoom(
+  room: Room,
+  userId: string
+): Promise<Result<Room, ArenaError>> {
+  const store = getStateStore();
+
+  // Check if already a member
+  if (await store.isRoomMember(room.id, userId)) {
+    return {
+      success: true,
+      data: room,
+    };
+  }
+
+  // Banned users cannot join
+  if (await store.getRoomBan(room.id, userId)) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'You are banned from this room',
+        ErrorCodes.BANNED
+      ),
+    };
+  }
+
+  // Check room capacity
+  if (room.max_members) {
+    const currentMembers = await store.getRoomMembers(room.id);
+    if (currentMembers.length >= room.max_members) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room is full',
+          ErrorCodes.ROOM_FULL
+        ),
+      };
+    }
+  }
+
+  // Add user as member
+  try {
+    await store.addRoomMember({
+      room_id: room.id,
+      user_id: userId,
+      role: 'member',
+    });
+  } catch (error) {
+    // Lost a race with a concurrent join - treat as already a member
+    if (await store.isRoomMember(room.id, userId)) {
+      return {
+        success: true,
+        data: room,
+      };
+    }
+    throw error;
+  }
+
+  return {
+    success: true,
+    data: room,
+  };
+}
+
+// ============================================================================
+// ROLE MANAGEMENT
+// ============================================================================
+
+/**
+ * Load a room and the target member for a role change by the current user
+ */
+async function prepareRoleChange(
+  roomId: string,
+  targetUserId: string,
+  capability: RoomCapability
+): Promise<Result<{ room: Room; target: RoomMember; userId: string }, ArenaError>> {
+  const userId = await getCurrentUserId();
+  const store = getStateStore();
+
+  const room = await store.getRoomById(roomId);
+  if (!room) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Room not found',
+        ErrorCodes.ROOM_NOT_FOUND
+      ),
+    };
+  }
+
+  const permissionError = await checkRoomCapability(room, userId, capability);
+  if (permissionError) {
+    return {
+      success: false,
+      error: permissionError,
+    };
+  }
+
+  const target = await store.getRoomMember(roomId, targetUserId);
+  if (!target) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'User is not a member of this room',
+        ErrorCodes.NOT_MEMBER
+      ),
+    };
+  }
+
+  if (targetUserId === room.owner_id) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'The room owner\'s role can only change by transferring ownership',
+        ErrorCodes.INVALID_STATE_TRANSITION
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: { room, target, userId },
+  };
+}
+
+/**
+ * Promote a member to admin
+ * Owner only
+ */
+export async function promoteMember(
+  roomId: string,
+  targetUserId: string
+): Promise<Result<RoomMember, ArenaError>> {
+  try {
+    const prepared = await prepareRoleChange(roomId, targetUserId, 'manage_roles');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+
+    if (prepared.data.target.role === 'admin') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Member is already an admin',
+          ErrorCodes.INVALID_STATE_TRANSITION
+        ),
+      };
+    }
+
+    const updated = await getStateStore().updateRoomMember(roomId, targetUserId, { role: 'admin' });
+    if (!updated) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to promote member',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to promote member',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Demote an admin to member
+ * Owner only
+ */
+export async function demoteMember(
+  roomId: string,
+  targetUserId: string
+): Promise<Result<RoomMember, ArenaError>> {
+  try {
+    const prepared = await prepareRoleChange(roomId, targetUserId, 'manage_roles');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+
+    if (prepared.data.target.role === 'member') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Member is not an admin',
+          ErrorCodes.INVALID_STATE_TRANSITION
+        ),
+      };
+    }
+
+    const updated = await getStateStore().updateRoomMember(roomId, targetUserId, { role: 'member' });
+    if (!updated) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to demote member',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to demote member',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Make another member the room owner
+ * Owner only; the previous owner stays on as an admin.
+ */
+export async function transferOwnership(
+  roomId: string,
+  newOwnerId: string
+): Promise<Result<Room, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const prepared = await prepareRoleChange(roomId, newOwnerId, 'transfer_ownership');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+    const { userId } = prepared.data;
+
+    const updated = await store.updateRoom(roomId, { owner_id: newOwnerId });
+    if (!updated) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Failed to transfer ownership',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    await store.updateRoomMember(roomId, newOwnerId, { role: 'owner' });
+    await store.updateRoomMember(roomId, userId, { role: 'admin' });
+
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to transfer ownership',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// MEMBERSHIP REMOVAL
+// ============================================================================
+
+/**
+ * Pick who takes over a room from its owner: earliest admin, else earliest member
+ */
+export function pickRoomSuccessor(
+  members: RoomMember[],
+  ownerId: string
+): RoomMember | undefined {
+  const candidates = members
+    .filter(m => m.user_id !== ownerId)
+    .sort((a, b) => a.joined_at.getTime() - b.joined_at.getTime());
+  return candidates.find(m => m.role === 'admin') || candidates[0];
+}
+
+/**
+ * Remove a user from a room and its lobbies
+ * Lobbies they host are cancelled and they leave lobbies they joined.
+ * Refused while they play in or host the room's active arena.
+ */
+async function removeMemberFromRoom(
+  room: Room,
+  userId: string
+): Promise<Result<void, ArenaError>> {
+  const store = getStateStore();
+
+  const activeArena = await store.getActiveArenaByRoomId(room.id);
+  if (activeArena) {
+    const participant = await store.getArenaParticipant(activeArena.id, userId);
+    if (activeArena.host_id === userId || participant?.status === 'joined') {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Cannot leave the room during an active arena',
+          ErrorCodes.PARTICIPANT_IN_ACTIVE_ARENA
+        ),
+      };
+    }
+  }
+
+  const now = new Date();
+  const arenas = await store.getArenasByRoomId(room.id);
+  for (const arena of arenas) {
+    if (arena.status !== 'lobby') {
+      continue;
+    }
+
+    if (arena.host_id === userId) {
+      const cancelled = await store.updateArena(arena.id, {
+        status: 'ended',
+        ended_at: now,
+        ended_reason: 'cancelled',
+      });
+      if (cancelled) {
+        publishArenaEvent({
+          type: 'arena_ended',
+          arena_id: arena.id,
+          arena: cancelled,
+          timestamp: now,
+        });
+      }
+      continue;
+    }
+
+    const participant = await store.getArenaParticipant(arena.id, userId);
+    if (participant?.status === 'joined') {
+      const updated = await store.updateArenaParticipant(arena.id, userId, {
+        status: 'left',
+        left_at: now,
+      });
+      if (updated) {
+        publishArenaEvent({
+          type: 'participant_left',
+          arena_id: arena.id,
+          participant: updated,
+          timestamp: now,
+        });
+      }
+    }
+  }
+
+  await store.removeRoomMember(room.id, userId);
+
+  return {
+    success: true,
+    data: undefined,
+  };
+}
+
+/**
+ * Load a room and check the current user may act on a target member
+ * The actor must hold the capability and outrank the target.
+ */
+async function prepareMemberAction(
+  roomId: string,
+  targetUserId: string,
+  capability: RoomCapability
+): Promise<Result<{ room: Room; userId: string }, ArenaError>> {
+  const userId = await getCurrentUserId();
+  const store = getStateStore();
+
+  const room = await store.getRoomById(roomId);
+  if (!room) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Room not found',
+        ErrorCodes.ROOM_NOT_FOUND
+      ),
+    };
+  }
+
+  const permissionError = await checkRoomCapability(room, userId, capability);
+  if (permissionError) {
+    return {
+      success: false,
+      error: permissionError,
+    };
+  }
+
+  if (targetUserId === userId) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'Use leaveRoom to leave a room yourself',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+
+  const actorRole = (await getRoomRole(room, userId))!;
+  const targetRole = await getRoomRole(room, targetUserId);
+  if (targetRole && ROLE_RANK[targetRole] >= ROLE_RANK[actorRole]) {
+    return {
+      success: false,
+      error: new ArenaError(
+        'You can only act on members with a lower role',
+        ErrorCodes.INSUFFICIENT_ROLE
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: { room, userId },
+  };
+}
+
+/**
+ * Leave a room
+ * An owner leaving hands the room to pickRoomSuccessor(); a room left empty is deleted.
+ */
+export async function leaveRoom(roomId: string): Promise<Result<void, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    if (!(await getRoomRole(room, userId))) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User is not a member of this room',
+          ErrorCodes.NOT_MEMBER
+        ),
+      };
+    }
+
+    const removeResult = await removeMemberFromRoom(room, userId);
+    if (!removeResult.success) {
+      return removeResult;
+    }
+
+    if (room.owner_id === userId) {
+      const successor = pickRoomSuccessor(await store.getRoomMembers(roomId), userId);
+      if (!successor) {
+        await store.deleteRoom(roomId);
+      } else {
+        await store.updateRoom(roomId, { owner_id: successor.user_id });
+        await store.updateRoomMember(roomId, successor.user_id, { role: 'owner' });
+      }
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to leave room',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Remove a member from a room (they may rejoin)
+ * Requires kick_members and a higher role than the target.
+ */
+export async function kickMember(
+  roomId: string,
+  targetUserId: string
+): Promise<Result<void, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const prepared = await prepareMemberAction(roomId, targetUserId, 'kick_members');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+
+    if (!(await store.isRoomMember(roomId, targetUserId))) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User is not a member of this room',
+          ErrorCodes.NOT_MEMBER
+        ),
+      };
+    }
+
+    return await removeMemberFromRoom(prepared.data.room, targetUserId);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to remove member',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Ban a user from a room, removing them if they are a member
+ * Requires ban_members and a higher role than the target.
+ */
+export async function banMember(
+  roomId: string,
+  targetUserId: string,
+  reason?: string
+): Promise<Result<RoomBan, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const prepared = await prepareMemberAction(roomId, targetUserId, 'ban_members');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+    const { room, userId } = prepared.data;
+
+    if (await store.isRoomMember(roomId, targetUserId)) {
+      const removeResult = await removeMemberFromRoom(room, targetUserId);
+      if (!removeResult.success) {
         return {
           success: false,
-          error: new ArenaError(
-            'Failed to rotate room code',
-            ErrorCodes.INVALID_INPUT
-          ),
+          error: removeResult.error,
         };
       }
+    }
+
+    const ban = await store.addRoomBan({
+      room_id: roomId,
+      user_id: targetUserId,
+      banned_by: userId,
+      reason: reason?.trim() || undefined,
+    });
+
+    return {
+      success: true,
+      data: ban,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to ban member',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Lift a ban so the user can join again
+ */
+export async function unbanMember(
+  roomId: string,
+  targetUserId: string
+): Promise<Result<void, ArenaError>> {
+  try {
+    const prepared = await prepareMemberAction(roomId, targetUserId, 'ban_members');
+    if (!prepared.success) {
+      return {
+        success: false,
+        error: prepared.error,
+      };
+    }
+
+    const removed = await getStateStore().removeRoomBan(roomId, targetUserId);
+    if (!removed) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'User is not banned from this room',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to unban member',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Get a room's ban list
+ * Requires ban_members
+ */
+export async function getRoomBans(roomId: string): Promise<Result<RoomBan[], ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    const permissionError = await checkRoomCapability(room, userId, 'ban_members');
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    return {
+      success: true,
+      data: await store.getRoomBans(roomId),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to get bans',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// PUBLIC ROOMS
+// ============================================================================
+
+/**
+ * Make a room public (listed in discovery) or private (join by code only)
+ * Requires the set_visibility capability (owner)
+ */
+export async function setRoomVisibility(
+  roomId: string,
+  isPublic: boolean
+): Promise<Result<Room, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
 
-      const room: Room = {
-        id: updatedData.id,
-        name: updatedData.name || `Room ${updatedData.code}`,
-        description: updatedData.description || undefined,
-        owner_id: updatedData.host_id,
-        roomCode: updatedData.code,
-        is_public: false,
-        max_members: updatedData.max_players,
-        created_at: new Date(updatedData.created_at),
-        updated_at: new Date(updatedData.created_at),
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    const permissionError = await checkRoomCapability(room, userId, 'set_visibility');
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
       };
+    }
 
+    if (room.is_public === isPublic) {
       return {
         success: true,
         data: room,
       };
     }
 
-    // Fallback to in-memory store
-    const room = store.getRoomById(roomId);
-    if (!room) {
+    const updated = await store.updateRoom(roomId, { is_public: isPublic });
+    if (!updated) {
       return {
         success: false,
         error: new ArenaError(
-          'Room not found',
-          ErrorCodes.ROOM_NOT_FOUND
+          'Failed to update room visibility',
+          ErrorCodes.INVALID_INPUT
         ),
       };
     }
 
-    // Check if user is owner
-    if (room.owner_id !== userId) {
+    return {
+      success: true,
+      data: updated,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to update room visibility',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * List public rooms, newest first
+ * Open to everyone, members or not.
+ */
+export async function listPublicRooms(
+  query: PublicRoomQuery = {}
+): Promise<Result<PublicRoomPage, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const limit = query.limit ?? PUBLIC_ROOMS_DEFAULT_LIMIT;
+    const offset = query.offset ?? 0;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > PUBLIC_ROOMS_MAX_LIMIT) {
       return {
         success: false,
         error: new ArenaError(
-          'Only the room owner can rotate the room code',
-          ErrorCodes.NOT_HOST
+          `Limit must be between 1 and ${PUBLIC_ROOMS_MAX_LIMIT}`,
+          ErrorCodes.INVALID_INPUT
         ),
       };
     }
 
-    // Generate new unique room code
-    const newCode = await generateUniqueRoomCode();
-
-    // Update room code
-    const updated = store.updateRoom(roomId, {
-      roomCode: newCode,
-    });
+    if (!Number.isInteger(offset) || offset < 0) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Offset must be a non-negative integer',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
 
-    if (!updated) {
+    if (query.mode && !getGameMode(query.mode)) {
       return {
         success: false,
         error: new ArenaError(
-          'Failed to rotate room code',
+          `Unsupported game mode: ${query.mode}`,
           ErrorCodes.INVALID_INPUT
         ),
       };
     }
 
+    // Filtering, counting and paging all happen in the store (one query with Supabase)
+    const page = await store.getPublicRooms(
+      { search: query.search, mode: query.mode, has_open_slots: query.has_open_slots },
+      limit,
+      offset
+    );
+
     return {
       success: true,
-      data: updated,
+      data: {
+        rooms: page.rooms,
+        total: page.total,
+        has_more: offset + page.rooms.length < page.total,
+      },
     };
   } catch (error: any) {
+    console.error('Error in listPublicRooms:', error);
     return {
       success: false,
       error: new ArenaError(
-        error.message || 'Failed to rotate room code',
+        error.message || 'Failed to list public rooms',
         ErrorCodes.INVALID_INPUT
       ),
     };
   }
 }
 
+// ============================================================================
+// INVITES
+// ============================================================================
+
 /**
- * Delete a room
- * Only the owner can delete the room
+ * Deep link for an invite token
  */
-export async function deleteRoom(roomId: string): Promise<Result<void, ArenaError>> {
+export function getInviteLink(token: string): string {
+  return `${INVITE_LINK_PREFIX}${token}`;
+}
+
+/**
+ * Extract the invite token from a deep link, or null if it isn't an invite link
+ */
+export function parseInviteLink(url: string): string | null {
+  if (!url || !url.startsWith(INVITE_LINK_PREFIX)) {
+    return null;
+  }
+  const token = url.slice(INVITE_LINK_PREFIX.length).split(/[?#/]/)[0];
+  return token || null;
+}
+
+/**
+ * Check whether an invite can still be redeemed
+ */
+function getInviteError(invite: RoomInvite, now: Date): ArenaError | null {
+  if (invite.revoked_at) {
+    return new ArenaError(
+      'This invite has been revoked',
+      ErrorCodes.INVALID_TOKEN
+    );
+  }
+
+  if (invite.expires_at && invite.expires_at.getTime() <= now.getTime()) {
+    return new ArenaError(
+      'This invite has expired',
+      ErrorCodes.INVITE_EXPIRED
+    );
+  }
+
+  if (invite.max_uses !== undefined && invite.use_count >= invite.max_uses) {
+    return new ArenaError(
+      'This invite has been used up',
+      ErrorCodes.INVITE_USED_UP
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Create an invite link for a room
+ * Any member can invite (create_invite capability).
+ */
+export async function createInvite(
+  roomId: string,
+  options: CreateInviteOptions = {}
+): Promise<Result<RoomInvite, ArenaError>> {
   try {
-    const userId = await getDeviceId();
-
-    // Try Supabase first
-    const { data: roomData, error: roomError } = await supabase
-      .from('rooms')
-      .select('*')
-      .eq('id', roomId)
-      .single();
-
-    if (roomData && !roomError) {
-      // Check if user is owner
-      if (roomData.host_id !== userId) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Only the room owner can delete the room',
-            ErrorCodes.NOT_HOST
-          ),
-        };
-      }
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const expiresInHours =
+      options.expires_in_hours === undefined ? INVITE_DEFAULT_TTL_HOURS : options.expires_in_hours;
+    if (
+      expiresInHours !== null &&
+      (!(expiresInHours > 0) || expiresInHours > INVITE_MAX_TTL_HOURS)
+    ) {
+      return {
+        success: false,
+        error: new ArenaError(
+          `Invite expiry must be more than 0 and at most ${INVITE_MAX_TTL_HOURS} hours`,
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
 
-      // Delete room (cascade will delete members)
-      const { error: deleteError } = await supabase
-        .from('rooms')
-        .delete()
-        .eq('id', roomId);
+    if (
+      options.max_uses !== undefined &&
+      (!Number.isInteger(options.max_uses) || options.max_uses < 1)
+    ) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Max uses must be a positive whole number',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
 
-      if (deleteError) {
-        return {
-          success: false,
-          error: new ArenaError(
-            'Failed to delete room',
-            ErrorCodes.INVALID_INPUT
-          ),
-        };
-      }
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
 
+    const permissionError = await checkRoomCapability(room, userId, 'create_invite');
+    if (permissionError) {
       return {
-        success: true,
-        data: undefined,
+        success: false,
+        error: permissionError,
       };
     }
 
-    // Fallback to in-memory store
-    const room = store.getRoomById(roomId);
+    const invite = await store.createRoomInvite({
+      room_id: roomId,
+      token: toBase64Url(randomBytes(INVITE_TOKEN_BYTES)),
+      created_by: userId,
+      expires_at:
+        expiresInHours === null
+          ? undefined
+          : new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      max_uses: options.max_uses,
+    });
+
+    return {
+      success: true,
+      data: invite,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to create invite',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Revoke an invite so it can no longer be redeemed
+ * Its creator can revoke it, as can the room owner and admins.
+ */
+export async function revokeInvite(
+  roomId: string,
+  inviteId: string
+): Promise<Result<RoomInvite, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+
+    const room = await store.getRoomById(roomId);
     if (!room) {
       return {
         success: false,
@@ -1089,24 +1698,41 @@ export async function deleteRoom(roomId: string): Promise<Result<void, ArenaErro
       };
     }
 
-    // Check if user is owner
-    if (room.owner_id !== userId) {
+    const invites = await store.getRoomInvites(roomId);
+    const invite = invites.find(i => i.id === inviteId);
+    if (!invite) {
       return {
         success: false,
         error: new ArenaError(
-          'Only the room owner can delete the room',
-          ErrorCodes.NOT_HOST
+          'Invite not found',
+          ErrorCodes.INVALID_INPUT
         ),
       };
     }
 
-    // Delete room (this will cascade delete members and arenas)
-    const deleted = store.deleteRoom(roomId);
-    if (!deleted) {
+    const capability: RoomCapability =
+      invite.created_by === userId ? 'create_invite' : 'manage_invites';
+    const permissionError = await checkRoomCapability(room, userId, capability);
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    if (invite.revoked_at) {
+      return {
+        success: true,
+        data: invite,
+      };
+    }
+
+    const updated = await store.updateRoomInvite(invite.id, { revoked_at: new Date() });
+    if (!updated) {
       return {
         success: false,
         error: new ArenaError(
-          'Failed to delete room',
+          'Invite not found',
           ErrorCodes.INVALID_INPUT
         ),
       };
@@ -1114,13 +1740,145 @@ export async function deleteRoom(roomId: string): Promise<Result<void, ArenaErro
 
     return {
       success: true,
-      data: undefined,
+      data: updated,
     };
   } catch (error: any) {
     return {
       success: false,
       error: new ArenaError(
-        error.message || 'Failed to delete room',
+        error.message || 'Failed to revoke invite',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * List a room's invites that can still be redeemed, newest first
+ * The owner and admins see every invite; other members see their own.
+ */
+export async function listInvites(roomId: string): Promise<Result<RoomInvite[], ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+    const now = new Date();
+
+    const room = await store.getRoomById(roomId);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    const permissionError = await checkRoomCapability(room, userId, 'create_invite');
+    if (permissionError) {
+      return {
+        success: false,
+        error: permissionError,
+      };
+    }
+
+    const seesAll = roleCan(await getRoomRole(room, userId), 'manage_invites');
+    const invites = (await store.getRoomInvites(roomId))
+      .filter(invite => seesAll || invite.created_by === userId)
+      .filter(invite => !getInviteError(invite, now))
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+
+    return {
+      success: true,
+      data: invites,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to list invites',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Join a room with an invite token (or a full invite link)
+ * Uses the same ban and capacity checks as joinRoomByCode. Members
+ * already in the room don't use up the invite.
+ */
+export async function redeemInvite(tokenOrLink: string): Promise<Result<Room, ArenaError>> {
+  try {
+    const userId = await getCurrentUserId();
+    const store = getStateStore();
+    const now = new Date();
+
+    const token = parseInviteLink(tokenOrLink) ?? tokenOrLink?.trim();
+    const invite = token ? await store.getRoomInviteByToken(token) : undefined;
+    if (!invite) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Invalid invite',
+          ErrorCodes.INVALID_TOKEN
+        ),
+      };
+    }
+
+    const inviteError = getInviteError(invite, now);
+    if (inviteError) {
+      return {
+        success: false,
+        error: inviteError,
+      };
+    }
+
+    const room = await store.getRoomById(invite.room_id);
+    if (!room) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Room not found',
+          ErrorCodes.ROOM_NOT_FOUND
+        ),
+      };
+    }
+
+    if (await store.isRoomMember(room.id, userId)) {
+      return {
+        success: true,
+        data: room,
+      };
+    }
+
+    // Count the use before joining: the store's conditional increment only
+    // lets as many concurrent redeemers through as the invite has uses left
+    const claimed = await store.claimRoomInviteUse(invite.id);
+    if (!claimed) {
+      const current = await store.getRoomInviteByToken(invite.token);
+      return {
+        success: false,
+        error:
+          (current && getInviteError(current, new Date())) ||
+          new ArenaError(
+            'This invite has been used up',
+            ErrorCodes.INVITE_USED_UP
+          ),
+      };
+    }
+
+    const joinResult = await addMemberToRoom(room, userId);
+    if (!joinResult.success) {
+      await store.releaseRoomInviteUse(invite.id);
+    }
+    return joinResult;
+  } catch (error: any) {
+    console.error('Error in redeemInvite:', error);
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to redeem invite',
         ErrorCodes.INVALID_INPUT
       ),
     };
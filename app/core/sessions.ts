@@ -0,0 +1,542 @@
+/**
+ * Social Arena - Sessions
+ *
+ * Signed access/refresh tokens for authenticated users.
+ * Token format: <base64url JSON claims>.<base64url HMAC-SHA256 signature>
+ *
+ * Access tokens are short-lived, signed with this device's key and checked
+ * without a store lookup. Refresh tokens are long-lived, single-use (rotated
+ * on every refresh) and verified against the session record in the store -
+ * only a hash of their random ID is kept there - so they survive an app
+ * restart or a lost signing key, and revoking a session stops it from being
+ * refreshed on every device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Session, Result, ArenaError, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import {
+  utf8Encode,
+  utf8Decode,
+  toBase64,
+  fromBase64,
+  toBase64Url,
+  fromBase64Url,
+  hmacSha256,
+  sha256,
+  constantTimeEqual,
+  randomBytes,
+} from '../lib/crypto';
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const REFRESH_AHEAD_MS = 60 * 1000; // Refresh one minute before the access token expires
+
+const SESSION_STORAGE_KEY = '@social_arena:session';
+const SIGNING_KEY_STORAGE_KEY = '@social_arena:session_key';
+const SIGNING_KEY_BYTES = 32;
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenClaims {
+  sid: string; // Session ID
+  sub: string; // User ID
+  typ: TokenType;
+  jti?: string; // Refresh token ID (refresh tokens only)
+  exp: number; // Expiry (ms since epoch)
+}
+
+export interface SessionTokens {
+  session_id: string;
+  user_id: string;
+  access_token: string;
+  access_expires_at: Date;
+  refresh_token: string;
+  refresh_expires_at: Date;
+}
+
+// ============================================================================
+// SIGNING KEY
+// ============================================================================
+
+let signingKey: Uint8Array | null = null;
+
+/**
+ * Use a fixed signing secret (e.g. from server config)
+ * Tokens signed with a previous key stop verifying.
+ */
+export function setSessionSigningKey(secret: string): void {
+  signingKey = utf8Encode(secret);
+}
+
+/**
+ * Load the device's signing key from AsyncStorage, creating one if missing
+ */
+async function loadSigningKey(): Promise<Uint8Array> {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  try {
+    const stored = await AsyncStorage.getItem(SIGNING_KEY_STORAGE_KEY);
+    const decoded = stored ? fromBase64(stored) : null;
+    if (decoded && decoded.length === SIGNING_KEY_BYTES) {
+      signingKey = decoded;
+      return signingKey;
+    }
+
+    const generated = randomBytes(SIGNING_KEY_BYTES);
+    await AsyncStorage.setItem(SIGNING_KEY_STORAGE_KEY, toBase64(generated));
+    signingKey = generated;
+  } catch (error) {
+    console.error('Error loading session signing key:', error);
+    // Fallback: tokens won't survive an app restart
+    signingKey = randomBytes(SIGNING_KEY_BYTES);
+  }
+  return signingKey;
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+function signToken(claims: TokenClaims, key: Uint8Array): string {
+  const payload = toBase64Url(utf8Encode(JSON.stringify(claims)));
+  const signature = toBase64Url(hmacSha256(key, utf8Encode(payload)));
+  return `${payload}.${signature}`;
+}
+
+function invalidToken(): Result<TokenClaims, ArenaError> {
+  return {
+    success: false,
+    error: new ArenaError('Invalid session token', ErrorCodes.INVALID_TOKEN),
+  };
+}
+
+/**
+ * Read a token's claims and check their type and expiry
+ * Leaves the signature to the caller.
+ */
+function readClaims(
+  payload: string,
+  type: TokenType,
+  now: number
+): Result<TokenClaims, ArenaError> {
+  let claims: TokenClaims;
+  try {
+    const payloadBytes = fromBase64Url(payload);
+    if (!payloadBytes) {
+      return invalidToken();
+    }
+    claims = JSON.parse(utf8Decode(payloadBytes));
+  } catch {
+    return invalidToken();
+  }
+
+  if (claims.typ !== type || typeof claims.exp !== 'number' || !claims.sid || !claims.sub) {
+    return invalidToken();
+  }
+
+  if (claims.exp <= now) {
+    return {
+      success: false,
+      error: new ArenaError('Session expired', ErrorCodes.SESSION_EXPIRED),
+    };
+  }
+
+  return {
+    success: true,
+    data: claims,
+  };
+}
+
+/**
+ * Verify a token's signature, type and expiry
+ * Does not consult the store; refresh tokens are verified by refreshSession().
+ */
+export function verifyToken(
+  token: string,
+  type: TokenType,
+  now: number = Date.now()
+): Result<TokenClaims, ArenaError> {
+  if (!signingKey) {
+    return invalidToken();
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    return invalidToken();
+  }
+
+  const [payload, signatureText] = parts;
+  const signature = fromBase64Url(signatureText);
+  const expected = hmacSha256(signingKey, utf8Encode(payload));
+  if (!signature || !constantTimeEqual(signature, expected)) {
+    return invalidToken();
+  }
+
+  return readClaims(payload, type, now);
+}
+
+function issueTokens(
+  session: Session,
+  refreshTokenId: string,
+  key: Uint8Array,
+  now: number
+): SessionTokens {
+  const accessExpiresAt = Math.min(now + ACCESS_TOKEN_TTL_MS, session.expires_at.getTime());
+  return {
+    session_id: session.id,
+    user_id: session.user_id,
+    access_token: signToken(
+      { sid: session.id, sub: session.user_id, typ: 'access', exp: accessExpiresAt },
+      key
+    ),
+    access_expires_at: new Date(accessExpiresAt),
+    refresh_token: signToken(
+      {
+        sid: session.id,
+        sub: session.user_id,
+        typ: 'refresh',
+        jti: refreshTokenId,
+        exp: session.expires_at.getTime(),
+      },
+      key
+    ),
+    refresh_expires_at: session.expires_at,
+  };
+}
+
+function generateTokenId(): string {
+  return toBase64Url(randomBytes(16));
+}
+
+function hashTokenId(tokenId: string): string {
+  return toBase64(sha256(utf8Encode(tokenId)));
+}
+
+// ============================================================================
+// CURRENT SESSION
+// ============================================================================
+
+let currentTokens: SessionTokens | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Get this device's session tokens
+ */
+export function getCurrentSession(): SessionTokens | null {
+  return currentTokens;
+}
+
+/**
+ * Replace this device's session, persisting it and scheduling the next refresh
+ */
+async function setCurrentSession(tokens: SessionTokens | null): Promise<void> {
+  currentTokens = tokens;
+
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  try {
+    if (tokens) {
+      await AsyncStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens));
+    } else {
+      await AsyncStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error persisting session:', error);
+  }
+
+  if (tokens) {
+    // Keep the access token fresh while the app is running
+    const delay = Math.max(0, tokens.access_expires_at.getTime() - Date.now() - REFRESH_AHEAD_MS);
+    refreshTimer = setTimeout(() => {
+      refreshTimer = null;
+      refreshSession().then((result) => {
+        if (!result.success) {
+          console.error('Session refresh failed:', result.error.message);
+        }
+      });
+    }, delay);
+  }
+}
+
+/**
+ * Load the session persisted by a previous app run
+ * Returns null when nothing valid is stored.
+ */
+export async function loadStoredSession(): Promise<SessionTokens | null> {
+  await loadSigningKey();
+  try {
+    const stored = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const parsed = JSON.parse(stored);
+    return {
+      ...parsed,
+      access_expires_at: new Date(parsed.access_expires_at),
+      refresh_expires_at: new Date(parsed.refresh_expires_at),
+    };
+  } catch (error) {
+    console.error('Error loading stored session:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget this device's session without revoking it
+ */
+export async function clearCurrentSession(): Promise<void> {
+  await setCurrentSession(null);
+}
+
+// ============================================================================
+// SESSION FUNCTIONS
+// ============================================================================
+
+/**
+ * Start a new session for a user and make it this device's session
+ */
+export async function createSession(userId: string): Promise<Result<SessionTokens, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const key = await loadSigningKey();
+    const now = Date.now();
+    const refreshTokenId = generateTokenId();
+
+    const session = await store.createSession(
+      {
+        user_id: userId,
+        expires_at: new Date(now + REFRESH_TOKEN_TTL_MS),
+      },
+      hashTokenId(refreshTokenId)
+    );
+
+    const tokens = issueTokens(session, refreshTokenId, key, now);
+    await setCurrentSession(tokens);
+
+    return {
+      success: true,
+      data: tokens,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to create session',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Exchange a refresh token for new access and refresh tokens
+ * Defaults to this device's refresh token. The token is checked against
+ * the session record, not this device's signing key. Reusing the refresh
+ * token that was just rotated out revokes the whole session.
+ */
+export async function refreshSession(
+  refreshToken?: string
+): Promise<Result<SessionTokens, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const key = await loadSigningKey();
+    const now = Date.now();
+
+    const token = refreshToken ?? currentTokens?.refresh_token;
+    if (!token) {
+      return {
+        success: false,
+        error: new ArenaError('No session to refresh', ErrorCodes.UNAUTHORIZED),
+      };
+    }
+
+    const claimsResult = readClaims(token.split('.')[0], 'refresh', now);
+    if (!claimsResult.success) {
+      return {
+        success: false,
+        error: claimsResult.error,
+      };
+    }
+    const claims = claimsResult.data;
+
+    const session = claims.jti ? await store.getSessionById(claims.sid) : undefined;
+    if (!session || session.user_id !== claims.sub) {
+      return {
+        success: false,
+        error: new ArenaError('Invalid session token', ErrorCodes.INVALID_TOKEN),
+      };
+    }
+
+    if (session.revoked_at) {
+      return {
+        success: false,
+        error: new ArenaError('Session has been revoked', ErrorCodes.SESSION_REVOKED),
+      };
+    }
+
+    if (session.expires_at.getTime() <= now) {
+      return {
+        success: false,
+        error: new ArenaError('Session expired', ErrorCodes.SESSION_EXPIRED),
+      };
+    }
+
+    // Compared and rotated inside the store, which never hands out the hashes
+    const refreshTokenId = generateTokenId();
+    const rotation = await store.rotateSession(
+      session.id,
+      hashTokenId(claims.jti!),
+      hashTokenId(refreshTokenId)
+    );
+    if (rotation === 'reused') {
+      // A rotated refresh token came back - assume it was stolen
+      return {
+        success: false,
+        error: new ArenaError('Session has been revoked', ErrorCodes.SESSION_REVOKED),
+      };
+    }
+    if (rotation !== 'rotated') {
+      return {
+        success: false,
+        error: new ArenaError('Invalid session token', ErrorCodes.INVALID_TOKEN),
+      };
+    }
+
+    const tokens = issueTokens(session, refreshTokenId, key, now);
+    if (!refreshToken || currentTokens?.session_id === session.id) {
+      await setCurrentSession(tokens);
+    }
+
+    return {
+      success: true,
+      data: tokens,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to refresh session',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Read the session a refresh token belongs to, for revoking it
+ * Defaults to this device's refresh token.
+ */
+function readRefreshClaims(
+  refreshToken: string | undefined
+): Result<TokenClaims, ArenaError> {
+  const token = refreshToken ?? currentTokens?.refresh_token;
+  if (!token) {
+    return {
+      success: false,
+      error: new ArenaError('No session to revoke', ErrorCodes.UNAUTHORIZED),
+    };
+  }
+
+  const claimsResult = readClaims(token.split('.')[0], 'refresh', Date.now());
+  if (claimsResult.success && !claimsResult.data.jti) {
+    return invalidToken();
+  }
+  return claimsResult;
+}
+
+/**
+ * Revoke a single session
+ * Defaults to this device's session; the refresh token proves it is ours.
+ * Clears this device's session if it is the one revoked.
+ */
+export async function revokeSession(refreshToken?: string): Promise<Result<void, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const claimsResult = readRefreshClaims(refreshToken);
+    if (!claimsResult.success) {
+      return {
+        success: false,
+        error: claimsResult.error,
+      };
+    }
+    const claims = claimsResult.data;
+
+    const revoked = await store.revokeSession(claims.sid, hashTokenId(claims.jti!));
+    if (currentTokens?.session_id === claims.sid) {
+      await setCurrentSession(null);
+    }
+
+    if (!revoked) {
+      return {
+        success: false,
+        error: new ArenaError('Session not found', ErrorCodes.INVALID_TOKEN),
+      };
+    }
+
+    return {
+      success: true,
+      data: undefined,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to revoke session',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+/**
+ * Revoke every session of a user ("log out everywhere")
+ * The user is the owner of the given refresh token (default: this device's).
+ * Other devices keep their access token until it expires, then fail to refresh.
+ * Returns the number of sessions revoked.
+ */
+export async function revokeAllSessions(refreshToken?: string): Promise<Result<number, ArenaError>> {
+  try {
+    const store = getStateStore();
+
+    const claimsResult = readRefreshClaims(refreshToken);
+    if (!claimsResult.success) {
+      return {
+        success: false,
+        error: claimsResult.error,
+      };
+    }
+    const claims = claimsResult.data;
+
+    const revoked = await store.revokeUserSessions(claims.sid, hashTokenId(claims.jti!));
+    if (revoked === 0) {
+      return {
+        success: false,
+        error: new ArenaError('Session not found', ErrorCodes.INVALID_TOKEN),
+      };
+    }
+
+    if (currentTokens?.user_id === claims.sub) {
+      await setCurrentSession(null);
+    }
+
+    return {
+      success: true,
+      data: revoked,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to revoke sessions',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
@@ -1,42 +1,212 @@
 /**
- * Social Arena - In-Memory State Store
+ * Social Arena - State Store
  * 
- * This is a temporary local engine that simulates server state.
- * In production, this will be replaced by API calls to a real server.
+ * Defines the StateStore interface that all domain modules persist through,
+ * plus the in-memory implementation used for local play and testing.
+ * The active backend is selected once at startup (see backend.ts).
  */
 
 import {
   User,
+  Session,
+  SessionRotation,
+  AccountToken,
   Room,
   RoomMember,
+  RoomBan,
+  RoomInvite,
+  RoomWithMemberCount,
+  PublicRoomFilter,
+  BLEProximityLog,
+  LocationFlag,
+  LocationTrackPoint,
   Arena,
+  ArenaStatus,
   ArenaParticipant,
 } from './types';
+import { publishArenaEvent } from './events';
+import { passwordHashParams } from './passwords';
+import { randomUuid } from '../lib/crypto';
 
 // ============================================================================
-// IN-MEMORY STORES
+// STATE STORE INTERFACE
 // ============================================================================
 
-class InMemoryStore {
+/**
+ * Store operations may resolve synchronously (in-memory) or asynchronously
+ * (remote backends). Domain code always awaits the result.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+export interface StateStore {
+  // Users (password hashes are write-only: checked and replaced inside the store)
+  createUser(
+    user: Omit<User, 'id' | 'created_at' | 'updated_at'>,
+    passwordHash: string
+  ): MaybePromise<User>;
+  getUserById(id: string): MaybePromise<User | undefined>;
+  getUserByEmail(email: string): MaybePromise<User | undefined>;
+  getUserByUsername(username: string): MaybePromise<User | undefined>;
+  updateUser(id: string, updates: Partial<User>): MaybePromise<User | undefined>;
+  listUsers(): MaybePromise<User[]>;
+  deleteUser(id: string, passwordHash: string): MaybePromise<boolean>; // With its sessions and account tokens
+  getPasswordHashParams(userId: string): MaybePromise<string | undefined>; // See passwordHashParams()
+  checkPasswordHash(userId: string, passwordHash: string): MaybePromise<boolean>;
+  replacePasswordHash(
+    userId: string,
+    currentPasswordHash: string,
+    passwordHash: string
+  ): MaybePromise<boolean>; // Only while currentPasswordHash is still stored
+
+  // Sessions (refresh token hashes are write-only as well)
+  createSession(
+    session: Omit<Session, 'id' | 'created_at'>,
+    refreshTokenHash: string
+  ): MaybePromise<Session>;
+  getSessionById(id: string): MaybePromise<Session | undefined>;
+  rotateSession(
+    id: string,
+    refreshTokenHash: string,
+    nextRefreshTokenHash: string
+  ): MaybePromise<SessionRotation>;
+  revokeSession(id: string, refreshTokenHash: string): MaybePromise<boolean>;
+  revokeUserSessions(id: string, refreshTokenHash: string): MaybePromise<number>; // Every session of the owner
+
+  // Account tokens (password reset, email verification)
+  createAccountToken(token: Omit<AccountToken, 'id' | 'created_at'>): MaybePromise<AccountToken>; // Invalidates the user's unused ones for the purpose
+  getAccountTokenByHash(tokenHash: string): MaybePromise<AccountToken | undefined>;
+  useAccountToken(tokenHash: string): MaybePromise<AccountToken | undefined>; // Only if unused and unexpired
+  resetPassword(tokenHash: string, passwordHash: string): MaybePromise<string | undefined>; // User ID; revokes their sessions
+
+  // Rooms
+  createRoom(room: Omit<Room, 'id' | 'created_at' | 'updated_at'>): MaybePromise<Room>;
+  getRoomById(id: string): MaybePromise<Room | undefined>;
+  getRoomByRoomCode(roomCode: string): MaybePromise<Room | undefined>;
+  getRoomsByUserId(userId: string): MaybePromise<Room[]>;
+  getPublicRooms(
+    filter: PublicRoomFilter,
+    limit: number,
+    offset: number
+  ): MaybePromise<{ rooms: RoomWithMemberCount[]; total: number }>; // Newest first; total counts every match
+  updateRoom(id: string, updates: Partial<Room>): MaybePromise<Room | undefined>;
+  deleteRoom(id: string): MaybePromise<boolean>;
+
+  // Room members
+  addRoomMember(member: Omit<RoomMember, 'id' | 'joined_at'>): MaybePromise<RoomMember>;
+  getRoomMember(roomId: string, userId: string): MaybePromise<RoomMember | undefined>;
+  getRoomMembers(roomId: string): MaybePromise<RoomMember[]>;
+  isRoomMember(roomId: string, userId: string): MaybePromise<boolean>;
+  updateRoomMember(
+    roomId: string,
+    userId: string,
+    updates: Partial<RoomMember>
+  ): MaybePromise<RoomMember | undefined>;
+  removeRoomMember(roomId: string, userId: string): MaybePromise<boolean>;
+
+  // Room bans
+  addRoomBan(ban: Omit<RoomBan, 'id' | 'created_at'>): MaybePromise<RoomBan>;
+  getRoomBan(roomId: string, userId: string): MaybePromise<RoomBan | undefined>;
+  getRoomBans(roomId: string): MaybePromise<RoomBan[]>;
+  removeRoomBan(roomId: string, userId: string): MaybePromise<boolean>;
+
+  // Room invites
+  createRoomInvite(invite: Omit<RoomInvite, 'id' | 'use_count' | 'created_at'>): MaybePromise<RoomInvite>;
+  getRoomInviteByToken(token: string): MaybePromise<RoomInvite | undefined>;
+  getRoomInvites(roomId: string): MaybePromise<RoomInvite[]>;
+  updateRoomInvite(id: string, updates: Partial<RoomInvite>): MaybePromise<RoomInvite | undefined>;
+  claimRoomInviteUse(id: string): MaybePromise<RoomInvite | undefined>; // Atomic; undefined when revoked, expired or used up
+  releaseRoomInviteUse(id: string): MaybePromise<void>; // Give back a claimed use
+
+  // Arenas
+  createArena(arena: Omit<Arena, 'id' | 'created_at' | 'updated_at'>): MaybePromise<Arena>;
+  getArenaById(id: string): MaybePromise<Arena | undefined>;
+  getArenasByRoomId(roomId: string): MaybePromise<Arena[]>;
+  getActiveArenaByRoomId(roomId: string): MaybePromise<Arena | undefined>;
+  updateArena(
+    id: string,
+    updates: Partial<Arena>,
+    expectedStatus?: ArenaStatus // Only update while the arena is still in this status
+  ): MaybePromise<Arena | undefined>;
+
+  // Arena participants
+  createArenaParticipant(
+    participant: Omit<ArenaParticipant, 'id' | 'created_at' | 'updated_at'>
+  ): MaybePromise<ArenaParticipant>;
+  getArenaParticipant(arenaId: string, userId: string): MaybePromise<ArenaParticipant | undefined>;
+  getArenaParticipants(arenaId: string): MaybePromise<ArenaParticipant[]>;
+  getArenaParticipantsByUserId(userId: string): MaybePromise<ArenaParticipant[]>;
+  getActiveArenaByUserId(userId: string): MaybePromise<Arena | undefined>;
+  updateArenaParticipant(
+    arenaId: string,
+    userId: string,
+    updates: Partial<ArenaParticipant>
+  ): MaybePromise<ArenaParticipant | undefined>;
+  deleteArenaParticipant(arenaId: string, userId: string): MaybePromise<boolean>;
+
+  // BLE proximity logs
+  addBleProximityLog(log: Omit<BLEProximityLog, 'id'>): MaybePromise<BLEProximityLog>;
+  getBleProximityLogs(arenaId: string, since?: Date): MaybePromise<BLEProximityLog[]>; // Oldest first
+  deleteBleProximityLogs(arenaId: string, userId: string): MaybePromise<void>; // As broadcaster or scanner
+
+  // Location flags (anti-cheat)
+  addLocationFlag(flag: Omit<LocationFlag, 'id'>): MaybePromise<LocationFlag>;
+  getLocationFlags(arenaId: string, userId?: string): MaybePromise<LocationFlag[]>; // Oldest first
+  deleteLocationFlags(arenaId: string, userId: string): MaybePromise<void>;
+
+  // Location tracks
+  addLocationTrackPoint(
+    point: Omit<LocationTrackPoint, 'id'>,
+    maxPoints: number // Oldest points beyond this are dropped
+  ): MaybePromise<LocationTrackPoint>;
+  getLocationTrack(
+    arenaId: string,
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): MaybePromise<LocationTrackPoint[]>; // Oldest first
+  deleteLocationTrackPoints(arenaId: string, userId: string, pointIds: string[]): MaybePromise<void>;
+  deleteLocationTrack(arenaId: string, userId: string): MaybePromise<void>;
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+export class InMemoryStore implements StateStore {
   private users: Map<string, User> = new Map();
+  private passwordHashes: Map<string, string> = new Map(); // key: userId
+  private sessions: Map<string, Session> = new Map();
+  private sessionTokenHashes: Map<string, { current: string; previous?: string }> = new Map(); // key: sessionId
+  private accountTokens: Map<string, AccountToken> = new Map();
   private rooms: Map<string, Room> = new Map();
   private roomMembers: Map<string, RoomMember> = new Map(); // key: `${roomId}:${userId}`
   private roomByRoomCode: Map<string, Room> = new Map(); // key: roomCode
+  private roomBans: Map<string, RoomBan> = new Map(); // key: `${roomId}:${userId}`
+  private roomInvites: Map<string, RoomInvite> = new Map();
   private arenas: Map<string, Arena> = new Map();
   private arenaParticipants: Map<string, ArenaParticipant> = new Map(); // key: `${arenaId}:${userId}`
+  private bleProximityLogs: Map<string, BLEProximityLog[]> = new Map(); // key: arenaId
+  private locationFlags: Map<string, LocationFlag[]> = new Map(); // key: arenaId
+  private locationTracks: Map<string, LocationTrackPoint[]> = new Map(); // key: `${arenaId}:${userId}`
   
-  private userIdCounter = 1;
+  private sessionIdCounter = 1;
+  private accountTokenIdCounter = 1;
   private roomIdCounter = 1;
   private arenaIdCounter = 1;
   private memberIdCounter = 1;
+  private banIdCounter = 1;
+  private inviteIdCounter = 1;
   private participantIdCounter = 1;
+  private bleLogIdCounter = 1;
+  private locationFlagIdCounter = 1;
+  private trackPointIdCounter = 1;
 
   // ============================================================================
   // USER OPERATIONS
   // ============================================================================
 
-  createUser(user: Omit<User, 'id' | 'created_at' | 'updated_at'>): User {
-    const id = `user-${this.userIdCounter++}`;
+  createUser(user: Omit<User, 'id' | 'created_at' | 'updated_at'>, passwordHash: string): User {
+    const id = randomUuid(); // Globally unique, so accounts never collide across devices
     const now = new Date();
     const newUser: User = {
       ...user,
@@ -45,6 +215,7 @@ class InMemoryStore {
       updated_at: now,
     };
     this.users.set(id, newUser);
+    this.passwordHashes.set(id, passwordHash);
     return newUser;
   }
 
@@ -83,6 +254,178 @@ class InMemoryStore {
     return updated;
   }
 
+  listUsers(): User[] {
+    return Array.from(this.users.values());
+  }
+
+  deleteUser(id: string, passwordHash: string): boolean {
+    if (!this.checkPasswordHash(id, passwordHash)) {
+      return false;
+    }
+
+    for (const [sessionId, session] of this.sessions) {
+      if (session.user_id === id) {
+        this.sessions.delete(sessionId);
+        this.sessionTokenHashes.delete(sessionId);
+      }
+    }
+    for (const [tokenId, token] of this.accountTokens) {
+      if (token.user_id === id) {
+        this.accountTokens.delete(tokenId);
+      }
+    }
+    this.passwordHashes.delete(id);
+    return this.users.delete(id);
+  }
+
+  getPasswordHashParams(userId: string): string | undefined {
+    const passwordHash = this.passwordHashes.get(userId);
+    return passwordHash === undefined ? undefined : passwordHashParams(passwordHash);
+  }
+
+  checkPasswordHash(userId: string, passwordHash: string): boolean {
+    return this.passwordHashes.get(userId) === passwordHash;
+  }
+
+  replacePasswordHash(userId: string, currentPasswordHash: string, passwordHash: string): boolean {
+    if (!this.checkPasswordHash(userId, currentPasswordHash)) {
+      return false;
+    }
+    this.passwordHashes.set(userId, passwordHash);
+    return true;
+  }
+
+  // ============================================================================
+  // SESSION OPERATIONS
+  // ============================================================================
+
+  createSession(session: Omit<Session, 'id' | 'created_at'>, refreshTokenHash: string): Session {
+    const id = `session-${this.sessionIdCounter++}`;
+    const newSession: Session = {
+      ...session,
+      id,
+      created_at: new Date(),
+    };
+    this.sessions.set(id, newSession);
+    this.sessionTokenHashes.set(id, { current: refreshTokenHash });
+    return newSession;
+  }
+
+  getSessionById(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  rotateSession(id: string, refreshTokenHash: string, nextRefreshTokenHash: string): SessionRotation {
+    const session = this.sessions.get(id);
+    const hashes = this.sessionTokenHashes.get(id);
+    if (!session || !hashes) return 'invalid';
+
+    const now = new Date();
+    if (
+      hashes.current === refreshTokenHash &&
+      !session.revoked_at &&
+      session.expires_at.getTime() > now.getTime()
+    ) {
+      this.sessionTokenHashes.set(id, { current: nextRefreshTokenHash, previous: refreshTokenHash });
+      this.sessions.set(id, { ...session, last_refreshed_at: now });
+      return 'rotated';
+    }
+
+    if (hashes.previous === refreshTokenHash) {
+      this.sessions.set(id, { ...session, revoked_at: session.revoked_at ?? now });
+      return 'reused';
+    }
+
+    return 'invalid';
+  }
+
+  revokeSession(id: string, refreshTokenHash: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session || this.sessionTokenHashes.get(id)?.current !== refreshTokenHash) {
+      return false;
+    }
+
+    this.sessions.set(id, { ...session, revoked_at: session.revoked_at ?? new Date() });
+    return true;
+  }
+
+  revokeUserSessions(id: string, refreshTokenHash: string): number {
+    const owner = this.sessions.get(id);
+    if (!owner || owner.revoked_at || this.sessionTokenHashes.get(id)?.current !== refreshTokenHash) {
+      return 0;
+    }
+
+    return this.revokeSessionsOf(owner.user_id, new Date());
+  }
+
+  private revokeSessionsOf(userId: string, now: Date): number {
+    let revoked = 0;
+    for (const session of this.sessions.values()) {
+      if (session.user_id === userId && !session.revoked_at) {
+        this.sessions.set(session.id, { ...session, revoked_at: now });
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  // ============================================================================
+  // ACCOUNT TOKEN OPERATIONS
+  // ============================================================================
+
+  createAccountToken(token: Omit<AccountToken, 'id' | 'created_at'>): AccountToken {
+    const now = new Date();
+    for (const existing of this.accountTokens.values()) {
+      if (existing.user_id === token.user_id && existing.purpose === token.purpose && !existing.used_at) {
+        this.accountTokens.set(existing.id, { ...existing, used_at: now });
+      }
+    }
+
+    const id = `token-${this.accountTokenIdCounter++}`;
+    const newToken: AccountToken = {
+      ...token,
+      id,
+      created_at: now,
+    };
+    this.accountTokens.set(id, newToken);
+    return newToken;
+  }
+
+  getAccountTokenByHash(tokenHash: string): AccountToken | undefined {
+    for (const token of this.accountTokens.values()) {
+      if (token.token_hash === tokenHash) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  useAccountToken(tokenHash: string): AccountToken | undefined {
+    const token = this.getAccountTokenByHash(tokenHash);
+    const now = new Date();
+    if (!token || token.used_at || token.expires_at.getTime() <= now.getTime()) {
+      return undefined;
+    }
+
+    const used: AccountToken = { ...token, used_at: now };
+    this.accountTokens.set(token.id, used);
+    return used;
+  }
+
+  resetPassword(tokenHash: string, passwordHash: string): string | undefined {
+    const token = this.getAccountTokenByHash(tokenHash);
+    if (!token || token.purpose !== 'password_reset' || !this.useAccountToken(tokenHash)) {
+      return undefined;
+    }
+    if (!this.passwordHashes.has(token.user_id)) {
+      return undefined;
+    }
+
+    this.passwordHashes.set(token.user_id, passwordHash);
+    this.revokeSessionsOf(token.user_id, new Date());
+    return token.user_id;
+  }
+
   // ============================================================================
   // ROOM OPERATIONS
   // ============================================================================
@@ -124,6 +467,42 @@ class InMemoryStore {
       .filter((room): room is Room => room !== undefined);
   }
 
+  getPublicRooms(
+    filter: PublicRoomFilter,
+    limit: number,
+    offset: number
+  ): { rooms: RoomWithMemberCount[]; total: number } {
+    const term = filter.search?.trim().toLowerCase();
+    const matches: RoomWithMemberCount[] = [];
+    for (const room of this.rooms.values()) {
+      if (!room.is_public || (term && !room.name.toLowerCase().includes(term))) {
+        continue;
+      }
+
+      const memberCount = this.getRoomMembers(room.id).length;
+      if (filter.has_open_slots && room.max_members && memberCount >= room.max_members) {
+        continue;
+      }
+
+      const arenas = this.getArenasByRoomId(room.id);
+      if (filter.mode && !arenas.some(a => a.status !== 'ended' && a.mode === filter.mode)) {
+        continue;
+      }
+
+      matches.push({
+        ...room,
+        member_count: memberCount,
+        active_arena_count: arenas.filter(a => a.status === 'active').length,
+      });
+    }
+
+    matches.sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+    return {
+      rooms: matches.slice(offset, offset + limit),
+      total: matches.length,
+    };
+  }
+
   updateRoom(id: string, updates: Partial<Room>): Room | undefined {
     const room = this.rooms.get(id);
     if (!room) return undefined;
@@ -164,6 +543,16 @@ class InMemoryStore {
       this.roomMembers.delete(key);
     }
 
+    // Delete all bans in this room
+    for (const ban of this.getRoomBans(id)) {
+      this.roomBans.delete(`${id}:${ban.user_id}`);
+    }
+
+    // Delete all invites to this room
+    for (const invite of this.getRoomInvites(id)) {
+      this.roomInvites.delete(invite.id);
+    }
+
     // Delete all arenas in this room
     const arenas = this.getArenasByRoomId(id);
     for (const arena of arenas) {
@@ -172,7 +561,10 @@ class InMemoryStore {
       for (const participant of participants) {
         const key = `${arena.id}:${participant.user_id}`;
         this.arenaParticipants.delete(key);
+        this.locationTracks.delete(key);
       }
+      this.bleProximityLogs.delete(arena.id);
+      this.locationFlags.delete(arena.id);
       this.arenas.delete(arena.id);
     }
 
@@ -221,11 +613,142 @@ class InMemoryStore {
     return this.getRoomMember(roomId, userId) !== undefined;
   }
 
+  updateRoomMember(
+    roomId: string,
+    userId: string,
+    updates: Partial<RoomMember>
+  ): RoomMember | undefined {
+    const key = `${roomId}:${userId}`;
+    const member = this.roomMembers.get(key);
+    if (!member) return undefined;
+
+    const updated: RoomMember = {
+      ...member,
+      ...updates,
+    };
+
+    // Re-key when the member's user ID changes
+    const newKey = `${roomId}:${updated.user_id}`;
+    if (newKey !== key) {
+      if (this.roomMembers.has(newKey)) {
+        throw new Error('User is already a member of this room');
+      }
+      this.roomMembers.delete(key);
+    }
+    this.roomMembers.set(newKey, updated);
+    return updated;
+  }
+
   removeRoomMember(roomId: string, userId: string): boolean {
     const key = `${roomId}:${userId}`;
     return this.roomMembers.delete(key);
   }
 
+  // ============================================================================
+  // ROOM BAN OPERATIONS
+  // ============================================================================
+
+  addRoomBan(ban: Omit<RoomBan, 'id' | 'created_at'>): RoomBan {
+    const key = `${ban.room_id}:${ban.user_id}`;
+    const existing = this.roomBans.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const newBan: RoomBan = {
+      ...ban,
+      id: `ban-${this.banIdCounter++}`,
+      created_at: new Date(),
+    };
+    this.roomBans.set(key, newBan);
+    return newBan;
+  }
+
+  getRoomBan(roomId: string, userId: string): RoomBan | undefined {
+    return this.roomBans.get(`${roomId}:${userId}`);
+  }
+
+  getRoomBans(roomId: string): RoomBan[] {
+    const bans: RoomBan[] = [];
+    for (const ban of this.roomBans.values()) {
+      if (ban.room_id === roomId) {
+        bans.push(ban);
+      }
+    }
+    return bans;
+  }
+
+  removeRoomBan(roomId: string, userId: string): boolean {
+    return this.roomBans.delete(`${roomId}:${userId}`);
+  }
+
+  // ============================================================================
+  // ROOM INVITE OPERATIONS
+  // ============================================================================
+
+  createRoomInvite(invite: Omit<RoomInvite, 'id' | 'use_count' | 'created_at'>): RoomInvite {
+    const newInvite: RoomInvite = {
+      ...invite,
+      id: `invite-${this.inviteIdCounter++}`,
+      use_count: 0,
+      created_at: new Date(),
+    };
+    this.roomInvites.set(newInvite.id, newInvite);
+    return newInvite;
+  }
+
+  getRoomInviteByToken(token: string): RoomInvite | undefined {
+    for (const invite of this.roomInvites.values()) {
+      if (invite.token === token) {
+        return invite;
+      }
+    }
+    return undefined;
+  }
+
+  getRoomInvites(roomId: string): RoomInvite[] {
+    const invites: RoomInvite[] = [];
+    for (const invite of this.roomInvites.values()) {
+      if (invite.room_id === roomId) {
+        invites.push(invite);
+      }
+    }
+    return invites;
+  }
+
+  updateRoomInvite(id: string, updates: Partial<RoomInvite>): RoomInvite | undefined {
+    const invite = this.roomInvites.get(id);
+    if (!invite) return undefined;
+
+    const updated: RoomInvite = {
+      ...invite,
+      ...updates,
+      id: invite.id,
+    };
+    this.roomInvites.set(id, updated);
+    return updated;
+  }
+
+  claimRoomInviteUse(id: string): RoomInvite | undefined {
+    const invite = this.roomInvites.get(id);
+    if (
+      !invite ||
+      invite.revoked_at ||
+      (invite.expires_at && invite.expires_at.getTime() <= Date.now()) ||
+      (invite.max_uses !== undefined && invite.use_count >= invite.max_uses)
+    ) {
+      return undefined;
+    }
+    return this.updateRoomInvite(id, { use_count: invite.use_count + 1 });
+  }
+
+  releaseRoomInviteUse(id: string): void {
+    const invite = this.roomInvites.get(id);
+    if (invite && invite.use_count > 0) {
+      this.updateRoomInvite(id, { use_count: invite.use_count - 1 });
+    }
+  }
+
   // ============================================================================
   // ARENA OPERATIONS
   // ============================================================================
@@ -266,9 +789,10 @@ class InMemoryStore {
     return undefined;
   }
 
-  updateArena(id: string, updates: Partial<Arena>): Arena | undefined {
+  updateArena(id: string, updates: Partial<Arena>, expectedStatus?: ArenaStatus): Arena | undefined {
     const arena = this.arenas.get(id);
     if (!arena) return undefined;
+    if (expectedStatus && arena.status !== expectedStatus) return undefined;
     
     const updated: Arena = {
       ...arena,
@@ -276,6 +800,12 @@ class InMemoryStore {
       updated_at: new Date(),
     };
     this.arenas.set(id, updated);
+    publishArenaEvent({
+      type: 'arena_updated',
+      arena_id: id,
+      arena: updated,
+      timestamp: updated.updated_at,
+    });
     return updated;
   }
 
@@ -320,6 +850,16 @@ class InMemoryStore {
     return participants;
   }
 
+  getArenaParticipantsByUserId(userId: string): ArenaParticipant[] {
+    const participants: ArenaParticipant[] = [];
+    for (const participant of this.arenaParticipants.values()) {
+      if (participant.user_id === userId) {
+        participants.push(participant);
+      }
+    }
+    return participants;
+  }
+
   getActiveArenaByUserId(userId: string): Arena | undefined {
     for (const participant of this.arenaParticipants.values()) {
       if (
@@ -349,24 +889,177 @@ class InMemoryStore {
       ...updates,
       updated_at: new Date(),
     };
-    this.arenaParticipants.set(key, updated);
+
+    // Re-key when the participant's user ID changes
+    const newKey = `${arenaId}:${updated.user_id}`;
+    if (newKey !== key) {
+      if (this.arenaParticipants.has(newKey)) {
+        throw new Error('User is already a participant in this arena');
+      }
+      this.arenaParticipants.delete(key);
+    }
+    this.arenaParticipants.set(newKey, updated);
+    publishArenaEvent({
+      type: 'participant_updated',
+      arena_id: arenaId,
+      participant: updated,
+      timestamp: updated.updated_at,
+    });
     return updated;
   }
 
+  deleteArenaParticipant(arenaId: string, userId: string): boolean {
+    return this.arenaParticipants.delete(`${arenaId}:${userId}`);
+  }
+
+  // ============================================================================
+  // BLE PROXIMITY LOG OPERATIONS
+  // ============================================================================
+
+  addBleProximityLog(log: Omit<BLEProximityLog, 'id'>): BLEProximityLog {
+    const newLog: BLEProximityLog = {
+      ...log,
+      id: `ble-${this.bleLogIdCounter++}`,
+    };
+
+    const logs = this.bleProximityLogs.get(log.arena_id) || [];
+    // Readings can arrive out of order - keep the list sorted by recorded_at
+    let index = logs.length;
+    while (index > 0 && logs[index - 1].recorded_at.getTime() > newLog.recorded_at.getTime()) {
+      index--;
+    }
+    logs.splice(index, 0, newLog);
+    this.bleProximityLogs.set(log.arena_id, logs);
+    return newLog;
+  }
+
+  getBleProximityLogs(arenaId: string, since?: Date): BLEProximityLog[] {
+    const logs = this.bleProximityLogs.get(arenaId) || [];
+    return since
+      ? logs.filter(log => log.recorded_at.getTime() >= since.getTime())
+      : [...logs];
+  }
+
+  deleteBleProximityLogs(arenaId: string, userId: string): void {
+    const logs = this.bleProximityLogs.get(arenaId) || [];
+    this.bleProximityLogs.set(
+      arenaId,
+      logs.filter(log => log.broadcaster_user_id !== userId && log.scanner_user_id !== userId)
+    );
+  }
+
+  // ============================================================================
+  // LOCATION FLAG OPERATIONS
+  // ============================================================================
+
+  addLocationFlag(flag: Omit<LocationFlag, 'id'>): LocationFlag {
+    const newFlag: LocationFlag = {
+      ...flag,
+      id: `flag-${this.locationFlagIdCounter++}`,
+    };
+
+    const flags = this.locationFlags.get(flag.arena_id) || [];
+    flags.push(newFlag);
+    this.locationFlags.set(flag.arena_id, flags);
+    return newFlag;
+  }
+
+  getLocationFlags(arenaId: string, userId?: string): LocationFlag[] {
+    const flags = this.locationFlags.get(arenaId) || [];
+    return userId ? flags.filter(flag => flag.user_id === userId) : [...flags];
+  }
+
+  deleteLocationFlags(arenaId: string, userId: string): void {
+    const flags = this.locationFlags.get(arenaId) || [];
+    this.locationFlags.set(arenaId, flags.filter(flag => flag.user_id !== userId));
+  }
+
+  // ============================================================================
+  // LOCATION TRACK OPERATIONS
+  // ============================================================================
+
+  addLocationTrackPoint(
+    point: Omit<LocationTrackPoint, 'id'>,
+    maxPoints: number
+  ): LocationTrackPoint {
+    const newPoint: LocationTrackPoint = {
+      ...point,
+      id: `track-${this.trackPointIdCounter++}`,
+    };
+
+    const key = `${point.arena_id}:${point.user_id}`;
+    const track = this.locationTracks.get(key) || [];
+    track.push(newPoint);
+    if (track.length > maxPoints) {
+      track.splice(0, track.length - maxPoints);
+    }
+    this.locationTracks.set(key, track);
+    return newPoint;
+  }
+
+  getLocationTrack(arenaId: string, userId: string, from?: Date, to?: Date): LocationTrackPoint[] {
+    const track = this.locationTracks.get(`${arenaId}:${userId}`) || [];
+    return track.filter(
+      point =>
+        (!from || point.recorded_at.getTime() >= from.getTime()) &&
+        (!to || point.recorded_at.getTime() <= to.getTime())
+    );
+  }
+
+  deleteLocationTrackPoints(arenaId: string, userId: string, pointIds: string[]): void {
+    const key = `${arenaId}:${userId}`;
+    const removed = new Set(pointIds);
+    const track = this.locationTracks.get(key) || [];
+    this.locationTracks.set(key, track.filter(point => !removed.has(point.id)));
+  }
+
+  deleteLocationTrack(arenaId: string, userId: string): void {
+    this.locationTracks.delete(`${arenaId}:${userId}`);
+  }
+
   // ============================================================================
   // UTILITY METHODS
   // ============================================================================
 
   clear(): void {
     this.users.clear();
+    this.passwordHashes.clear();
+    this.sessions.clear();
+    this.sessionTokenHashes.clear();
+    this.accountTokens.clear();
     this.rooms.clear();
     this.roomMembers.clear();
     this.roomByRoomCode.clear();
+    this.roomBans.clear();
+    this.roomInvites.clear();
     this.arenas.clear();
     this.arenaParticipants.clear();
+    this.bleProximityLogs.clear();
+    this.locationFlags.clear();
+    this.locationTracks.clear();
   }
 }
 
 // Singleton instance
 export const store = new InMemoryStore();
 
+// ============================================================================
+// ACTIVE BACKEND
+// ============================================================================
+
+let activeStore: StateStore = store;
+
+/**
+ * Get the store all domain functions read and write through
+ */
+export function getStateStore(): StateStore {
+  return activeStore;
+}
+
+/**
+ * Replace the active store (call once at startup, before any domain call)
+ */
+export function setStateStore(next: StateStore): void {
+  activeStore = next;
+}
+
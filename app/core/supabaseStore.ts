@@ -0,0 +1,1410 @@
+/**
+ * Social Arena - Supabase State Store
+ *
+ * StateStore implementation backed by Supabase (PostgREST).
+ * Every entity - users, sessions, account tokens, rooms, arenas, participants
+ * and location data - lives in the tables defined in database/schema.sql.
+ * Credentials are only reached through the database functions defined there.
+ *
+ * The client is injected so the store can be pointed at a local
+ * Postgres/PostgREST stand-in for testing.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  User,
+  Session,
+  SessionRotation,
+  AccountToken,
+  Room,
+  RoomMember,
+  RoomBan,
+  RoomInvite,
+  RoomWithMemberCount,
+  PublicRoomFilter,
+  BLEProximityLog,
+  LocationFlag,
+  LocationTrackPoint,
+  Arena,
+  ArenaStatus,
+  ArenaParticipant,
+} from './types';
+import { StateStore } from './store';
+import { publishArenaEvent } from './events';
+
+// PostgREST error code for ".single()" returning no rows
+const NO_ROWS_ERROR_CODE = 'PGRST116';
+// Postgres unique constraint violation
+const UNIQUE_VIOLATION_ERROR_CODE = '23505';
+
+// Default game mode for the rooms.mode column
+const DEFAULT_ROOM_MODE = 'predators';
+// Default capacity for the rooms.max_players column
+const DEFAULT_MAX_PLAYERS = 10;
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+function mapRoomRow(row: any): Room {
+  return {
+    id: row.id,
+    name: row.name || `Room ${row.code}`,
+    description: row.description || undefined,
+    owner_id: row.host_id,
+    roomCode: row.code,
+    is_public: !!row.is_public,
+    max_members: row.max_players,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.created_at),
+  };
+}
+
+function mapRoomUpdates(updates: Partial<Room>): Record<string, any> {
+  const row: Record<string, any> = {};
+  if (updates.name !== undefined) row.name = updates.name;
+  if (updates.description !== undefined) row.description = updates.description || null;
+  if (updates.owner_id !== undefined) row.host_id = updates.owner_id;
+  if (updates.roomCode !== undefined) row.code = updates.roomCode.toUpperCase();
+  if (updates.max_members !== undefined) row.max_players = updates.max_members;
+  if (updates.is_public !== undefined) row.is_public = updates.is_public;
+  return row;
+}
+
+function toDate(value: string | null | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Convert a partial entity into a row update.
+ * Keys explicitly set to undefined are cleared (null), dates are serialized.
+ */
+function mapEntityUpdates<T extends object>(updates: Partial<T>): Record<string, any> {
+  const row: Record<string, any> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === 'id' || key === 'created_at' || key === 'updated_at') continue;
+    row[key] = value === undefined ? null : value instanceof Date ? value.toISOString() : value;
+  }
+  row.updated_at = new Date().toISOString();
+  return row;
+}
+
+function mapArenaRow(row: any): Arena {
+  return {
+    id: row.id,
+    room_id: row.room_id,
+    mode: row.mode,
+    status: row.status,
+    host_id: row.host_id,
+    started_at: toDate(row.started_at),
+    ended_at: toDate(row.ended_at),
+    duration_minutes: row.duration_minutes,
+    settings: row.settings || {},
+    winner_team: row.winner_team || undefined,
+    ended_reason: row.ended_reason || undefined,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  };
+}
+
+function mapArenaParticipantRow(row: any): ArenaParticipant {
+  return {
+    id: row.id,
+    arena_id: row.arena_id,
+    user_id: row.user_id,
+    role: row.role,
+    status: row.status,
+    joined_at: new Date(row.joined_at),
+    left_at: toDate(row.left_at),
+    is_captured: row.is_captured,
+    captured_at: toDate(row.captured_at),
+    captured_by_user_id: row.captured_by_user_id || undefined,
+    last_latitude: row.last_latitude ?? undefined,
+    last_longitude: row.last_longitude ?? undefined,
+    last_location_updated_at: toDate(row.last_location_updated_at),
+    last_location_accuracy_meters: row.last_location_accuracy_meters ?? undefined,
+    last_location_source: row.last_location_source || undefined,
+    location_quarantined_until: toDate(row.location_quarantined_until),
+    suspicion_score: row.suspicion_score ?? undefined,
+    is_ble_broadcasting: row.is_ble_broadcasting,
+    ble_started_at: toDate(row.ble_started_at),
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+  };
+}
+
+function mapUserRow(row: any): User {
+  return {
+    id: row.id,
+    email: row.email,
+    username: row.username,
+    display_name: row.display_name || undefined,
+    avatar_url: row.avatar_url || undefined,
+    created_at: new Date(row.created_at),
+    updated_at: new Date(row.updated_at),
+    last_seen_at: toDate(row.last_seen_at),
+    email_verified_at: toDate(row.email_verified_at),
+  };
+}
+
+// Token functions never return the hash, so it comes from the caller
+function mapAccountTokenRow(row: any, tokenHash: string): AccountToken {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    purpose: row.purpose,
+    token_hash: tokenHash,
+    email: row.email,
+    expires_at: new Date(row.expires_at),
+    used_at: toDate(row.used_at),
+    created_at: new Date(row.created_at),
+  };
+}
+
+function mapSessionRow(row: any): Session {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    created_at: new Date(row.created_at),
+    expires_at: new Date(row.expires_at),
+    last_refreshed_at: toDate(row.last_refreshed_at),
+    revoked_at: toDate(row.revoked_at),
+  };
+}
+
+function mapRoomBanRow(row: any): RoomBan {
+  return {
+    id: row.id,
+    room_id: row.room_id,
+    user_id: row.user_id,
+    banned_by: row.banned_by,
+    reason: row.reason || undefined,
+    created_at: new Date(row.created_at),
+  };
+}
+
+function mapRoomInviteRow(row: any): RoomInvite {
+  return {
+    id: row.id,
+    room_id: row.room_id,
+    token: row.token,
+    created_by: row.created_by,
+    expires_at: toDate(row.expires_at),
+    max_uses: row.max_uses ?? undefined,
+    use_count: row.use_count,
+    revoked_at: toDate(row.revoked_at),
+    created_at: new Date(row.created_at),
+  };
+}
+
+function mapBleProximityLogRow(row: any): BLEProximityLog {
+  return {
+    id: row.id,
+    arena_id: row.arena_id,
+    broadcaster_user_id: row.broadcaster_user_id,
+    scanner_user_id: row.scanner_user_id,
+    rssi: row.rssi,
+    distance_estimate_meters: row.distance_estimate_meters ?? undefined,
+    broadcaster_latitude: row.broadcaster_latitude ?? undefined,
+    broadcaster_longitude: row.broadcaster_longitude ?? undefined,
+    scanner_latitude: row.scanner_latitude ?? undefined,
+    scanner_longitude: row.scanner_longitude ?? undefined,
+    recorded_at: new Date(row.recorded_at),
+  };
+}
+
+function mapLocationFlagRow(row: any): LocationFlag {
+  return {
+    id: row.id,
+    arena_id: row.arena_id,
+    user_id: row.user_id,
+    kind: row.kind,
+    action: row.action,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    previous_latitude: row.previous_latitude ?? undefined,
+    previous_longitude: row.previous_longitude ?? undefined,
+    distance_meters: row.distance_meters ?? undefined,
+    speed_mps: row.speed_mps ?? undefined,
+    recorded_at: new Date(row.recorded_at),
+  };
+}
+
+function mapLocationTrackPointRow(row: any): LocationTrackPoint {
+  return {
+    id: row.id,
+    arena_id: row.arena_id,
+    user_id: row.user_id,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    accuracy_meters: row.accuracy_meters ?? undefined,
+    source: row.source,
+    recorded_at: new Date(row.recorded_at),
+  };
+}
+
+function mapRoomMemberRow(row: any): RoomMember {
+  return {
+    id: row.id,
+    room_id: row.room_id,
+    user_id: row.user_id,
+    role: row.role as 'owner' | 'admin' | 'member',
+    joined_at: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// SUPABASE STORE
+// ============================================================================
+
+export class SupabaseStateStore implements StateStore {
+  constructor(private client: SupabaseClient) {}
+
+  // ============================================================================
+  // USER OPERATIONS
+  // ============================================================================
+  // The users, sessions and account_tokens tables are closed to the client.
+  // Profiles are read from the user_profiles view; everything else goes
+  // through database functions that never return a hash.
+
+  async createUser(
+    user: Omit<User, 'id' | 'created_at' | 'updated_at'>,
+    passwordHash: string
+  ): Promise<User> {
+    const { data, error } = await this.client
+      .rpc('create_user', {
+        p_email: user.email,
+        p_username: user.username,
+        p_password_hash: passwordHash,
+        p_display_name: user.display_name ?? null,
+        p_avatar_url: user.avatar_url ?? null,
+      })
+      .single();
+
+    if (error || !data) {
+      if (error?.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('Email or username already taken');
+      }
+      throw new Error(error?.message || 'Failed to create user');
+    }
+
+    return mapUserRow(data);
+  }
+
+  getUserById(id: string): Promise<User | undefined> {
+    return this.selectUser('id', id);
+  }
+
+  getUserByEmail(email: string): Promise<User | undefined> {
+    return this.selectUser('email', email);
+  }
+
+  getUserByUsername(username: string): Promise<User | undefined> {
+    return this.selectUser('username', username);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const { data, error } = await this.client
+      .rpc('update_user', { p_user_id: id, p_updates: mapEntityUpdates<User>(updates) })
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('Email or username already taken');
+      }
+      throw new Error(error.message);
+    }
+
+    return data ? mapUserRow(data) : undefined;
+  }
+
+  async listUsers(): Promise<User[]> {
+    const { data, error } = await this.client
+      .from('user_profiles')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapUserRow);
+  }
+
+  async deleteUser(id: string, passwordHash: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('delete_user', {
+      p_user_id: id,
+      p_password_hash: passwordHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === true;
+  }
+
+  async getPasswordHashParams(userId: string): Promise<string | undefined> {
+    const { data, error } = await this.client.rpc('get_password_params', { p_user_id: userId });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ?? undefined;
+  }
+
+  async checkPasswordHash(userId: string, passwordHash: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('check_password', {
+      p_user_id: userId,
+      p_password_hash: passwordHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === true;
+  }
+
+  async replacePasswordHash(
+    userId: string,
+    currentPasswordHash: string,
+    passwordHash: string
+  ): Promise<boolean> {
+    const { data, error } = await this.client.rpc('replace_password', {
+      p_user_id: userId,
+      p_current_hash: currentPasswordHash,
+      p_password_hash: passwordHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === true;
+  }
+
+  // ============================================================================
+  // SESSION OPERATIONS
+  // ============================================================================
+
+  async createSession(
+    session: Omit<Session, 'id' | 'created_at'>,
+    refreshTokenHash: string
+  ): Promise<Session> {
+    const { data, error } = await this.client
+      .rpc('create_session', {
+        p_user_id: session.user_id,
+        p_refresh_token_hash: refreshTokenHash,
+        p_expires_at: session.expires_at.toISOString(),
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create session');
+    }
+
+    return mapSessionRow(data);
+  }
+
+  async getSessionById(id: string): Promise<Session | undefined> {
+    const { data, error } = await this.client
+      .rpc('get_session', { p_session_id: id })
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapSessionRow(data) : undefined;
+  }
+
+  async rotateSession(
+    id: string,
+    refreshTokenHash: string,
+    nextRefreshTokenHash: string
+  ): Promise<SessionRotation> {
+    // One conditional update in the database, so two refreshes with the same token can't both win
+    const { data, error } = await this.client.rpc('rotate_session', {
+      p_session_id: id,
+      p_refresh_token_hash: refreshTokenHash,
+      p_next_refresh_token_hash: nextRefreshTokenHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === 'rotated' || data === 'reused' ? data : 'invalid';
+  }
+
+  async revokeSession(id: string, refreshTokenHash: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('revoke_session', {
+      p_session_id: id,
+      p_refresh_token_hash: refreshTokenHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data === true;
+  }
+
+  async revokeUserSessions(id: string, refreshTokenHash: string): Promise<number> {
+    const { data, error } = await this.client.rpc('revoke_user_sessions', {
+      p_session_id: id,
+      p_refresh_token_hash: refreshTokenHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ?? 0;
+  }
+
+  // ============================================================================
+  // ACCOUNT TOKEN OPERATIONS
+  // ============================================================================
+
+  async createAccountToken(
+    token: Omit<AccountToken, 'id' | 'created_at'>
+  ): Promise<AccountToken> {
+    const { data, error } = await this.client
+      .rpc('issue_account_token', {
+        p_user_id: token.user_id,
+        p_purpose: token.purpose,
+        p_token_hash: token.token_hash,
+        p_email: token.email,
+        p_expires_at: token.expires_at.toISOString(),
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create account token');
+    }
+
+    return mapAccountTokenRow(data, token.token_hash);
+  }
+
+  async getAccountTokenByHash(tokenHash: string): Promise<AccountToken | undefined> {
+    const { data, error } = await this.client
+      .rpc('get_account_token', { p_token_hash: tokenHash })
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapAccountTokenRow(data, tokenHash) : undefined;
+  }
+
+  async useAccountToken(tokenHash: string): Promise<AccountToken | undefined> {
+    const { data, error } = await this.client
+      .rpc('use_account_token', { p_token_hash: tokenHash })
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapAccountTokenRow(data, tokenHash) : undefined;
+  }
+
+  async resetPassword(tokenHash: string, passwordHash: string): Promise<string | undefined> {
+    const { data, error } = await this.client.rpc('reset_password', {
+      p_token_hash: tokenHash,
+      p_password_hash: passwordHash,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ?? undefined;
+  }
+
+  // ============================================================================
+  // ROOM OPERATIONS
+  // ============================================================================
+
+  async createRoom(room: Omit<Room, 'id' | 'created_at' | 'updated_at'>): Promise<Room> {
+    const { data, error } = await this.client
+      .from('rooms')
+      .insert({
+        code: room.roomCode?.toUpperCase(),
+        host_id: room.owner_id,
+        mode: DEFAULT_ROOM_MODE,
+        max_players: room.max_members || DEFAULT_MAX_PLAYERS,
+        name: room.name,
+        description: room.description || null,
+        is_public: room.is_public,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create room');
+    }
+
+    return mapRoomRow(data);
+  }
+
+  async getRoomById(id: string): Promise<Room | undefined> {
+    return this.selectRoom('id', id);
+  }
+
+  async getRoomByRoomCode(roomCode: string): Promise<Room | undefined> {
+    return this.selectRoom('code', roomCode.toUpperCase());
+  }
+
+  async getRoomsByUserId(userId: string): Promise<Room[]> {
+    const { data: members, error: membersError } = await this.client
+      .from('room_members')
+      .select('room_id')
+      .eq('user_id', userId);
+
+    if (membersError) {
+      throw new Error(membersError.message);
+    }
+
+    if (!members || members.length === 0) {
+      return [];
+    }
+
+    const roomIds = members.map(m => m.room_id);
+    const { data: rooms, error: roomsError } = await this.client
+      .from('rooms')
+      .select('*')
+      .in('id', roomIds);
+
+    if (roomsError) {
+      throw new Error(roomsError.message);
+    }
+
+    return (rooms || []).map(mapRoomRow);
+  }
+
+  async getPublicRooms(
+    filter: PublicRoomFilter,
+    limit: number,
+    offset: number
+  ): Promise<{ rooms: RoomWithMemberCount[]; total: number }> {
+    // The view carries the member and arena counts, so this is a single query
+    let query = this.client
+      .from('public_room_summaries')
+      .select('*', { count: 'exact' });
+
+    const term = filter.search?.trim();
+    if (term) {
+      // Match the search text literally. PostgREST turns every * in an
+      // ilike pattern into %, so search with an escaped regex instead.
+      query = query.filter('name', 'imatch', term.replace(/[\\^$.|?*+()[\]{}]/g, '\\$&'));
+    }
+
+    if (filter.has_open_slots) {
+      query = query.eq('has_open_slots', true);
+    }
+
+    if (filter.mode) {
+      query = query.contains('open_arena_modes', [filter.mode]);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return {
+      rooms: (data || []).map(row => ({
+        ...mapRoomRow(row),
+        member_count: row.member_count,
+        active_arena_count: row.active_arena_count,
+      })),
+      total: count ?? 0,
+    };
+  }
+
+  async updateRoom(id: string, updates: Partial<Room>): Promise<Room | undefined> {
+    const row = mapRoomUpdates(updates);
+    if (Object.keys(row).length === 0) {
+      return this.getRoomById(id);
+    }
+
+    const { data, error } = await this.client
+      .from('rooms')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomRow(data) : undefined;
+  }
+
+  async deleteRoom(id: string): Promise<boolean> {
+    // Cascades remove memberships, bans, arenas and arena participants
+    const { data, error } = await this.client
+      .from('rooms')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ============================================================================
+  // ROOM MEMBER OPERATIONS
+  // ============================================================================
+
+  async addRoomMember(member: Omit<RoomMember, 'id' | 'joined_at'>): Promise<RoomMember> {
+    const { data, error } = await this.client
+      .from('room_members')
+      .insert({
+        room_id: member.room_id,
+        user_id: member.user_id,
+        role: member.role,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('User is already a member of this room');
+      }
+      throw new Error(error.message);
+    }
+
+    return mapRoomMemberRow(data);
+  }
+
+  async getRoomMember(roomId: string, userId: string): Promise<RoomMember | undefined> {
+    const { data, error } = await this.client
+      .from('room_members')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomMemberRow(data) : undefined;
+  }
+
+  async getRoomMembers(roomId: string): Promise<RoomMember[]> {
+    const { data, error } = await this.client
+      .from('room_members')
+      .select('*')
+      .eq('room_id', roomId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapRoomMemberRow);
+  }
+
+  async isRoomMember(roomId: string, userId: string): Promise<boolean> {
+    return (await this.getRoomMember(roomId, userId)) !== undefined;
+  }
+
+  async updateRoomMember(
+    roomId: string,
+    userId: string,
+    updates: Partial<RoomMember>
+  ): Promise<RoomMember | undefined> {
+    const row: Record<string, any> = {};
+    if (updates.user_id !== undefined) row.user_id = updates.user_id;
+    if (updates.role !== undefined) row.role = updates.role;
+    if (Object.keys(row).length === 0) {
+      return this.getRoomMember(roomId, userId);
+    }
+
+    const { data, error } = await this.client
+      .from('room_members')
+      .update(row)
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('User is already a member of this room');
+      }
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomMemberRow(data) : undefined;
+  }
+
+  async removeRoomMember(roomId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('room_members')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ============================================================================
+  // ROOM BAN OPERATIONS
+  // ============================================================================
+
+  async addRoomBan(ban: Omit<RoomBan, 'id' | 'created_at'>): Promise<RoomBan> {
+    const { data, error } = await this.client
+      .from('room_bans')
+      .insert({
+        room_id: ban.room_id,
+        user_id: ban.user_id,
+        banned_by: ban.banned_by,
+        reason: ban.reason || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        const existing = await this.getRoomBan(ban.room_id, ban.user_id);
+        if (existing) {
+          return existing;
+        }
+      }
+      throw new Error(error.message);
+    }
+
+    return mapRoomBanRow(data);
+  }
+
+  async getRoomBan(roomId: string, userId: string): Promise<RoomBan | undefined> {
+    const { data, error } = await this.client
+      .from('room_bans')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomBanRow(data) : undefined;
+  }
+
+  async getRoomBans(roomId: string): Promise<RoomBan[]> {
+    const { data, error } = await this.client
+      .from('room_bans')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapRoomBanRow);
+  }
+
+  async removeRoomBan(roomId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('room_bans')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ============================================================================
+  // ROOM INVITE OPERATIONS
+  // ============================================================================
+
+  async createRoomInvite(
+    invite: Omit<RoomInvite, 'id' | 'use_count' | 'created_at'>
+  ): Promise<RoomInvite> {
+    const { data, error } = await this.client
+      .from('room_invites')
+      .insert({
+        room_id: invite.room_id,
+        token: invite.token,
+        created_by: invite.created_by,
+        expires_at: invite.expires_at?.toISOString() ?? null,
+        max_uses: invite.max_uses ?? null,
+        revoked_at: invite.revoked_at?.toISOString() ?? null,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create invite');
+    }
+
+    return mapRoomInviteRow(data);
+  }
+
+  async getRoomInviteByToken(token: string): Promise<RoomInvite | undefined> {
+    const { data, error } = await this.client
+      .from('room_invites')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomInviteRow(data) : undefined;
+  }
+
+  async getRoomInvites(roomId: string): Promise<RoomInvite[]> {
+    const { data, error } = await this.client
+      .from('room_invites')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapRoomInviteRow);
+  }
+
+  async updateRoomInvite(
+    id: string,
+    updates: Partial<RoomInvite>
+  ): Promise<RoomInvite | undefined> {
+    const { data, error } = await this.client
+      .from('room_invites')
+      .update(mapEntityUpdates<RoomInvite>(updates))
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomInviteRow(data) : undefined;
+  }
+
+  async claimRoomInviteUse(id: string): Promise<RoomInvite | undefined> {
+    // One conditional update in the database, so concurrent redeemers can't overshoot max_uses
+    const { data, error } = await this.client
+      .rpc('claim_room_invite_use', { invite_id: id })
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomInviteRow(data) : undefined;
+  }
+
+  async releaseRoomInviteUse(id: string): Promise<void> {
+    const { error } = await this.client.rpc('release_room_invite_use', { invite_id: id });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // ============================================================================
+  // ARENA OPERATIONS
+  // ============================================================================
+
+  async createArena(arena: Omit<Arena, 'id' | 'created_at' | 'updated_at'>): Promise<Arena> {
+    const { data, error } = await this.client
+      .from('arenas')
+      .insert(mapEntityUpdates<Arena>(arena))
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to create arena');
+    }
+
+    return mapArenaRow(data);
+  }
+
+  async getArenaById(id: string): Promise<Arena | undefined> {
+    const { data, error } = await this.client
+      .from('arenas')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapArenaRow(data) : undefined;
+  }
+
+  async getArenasByRoomId(roomId: string): Promise<Arena[]> {
+    const { data, error } = await this.client
+      .from('arenas')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapArenaRow);
+  }
+
+  async getActiveArenaByRoomId(roomId: string): Promise<Arena | undefined> {
+    const { data, error } = await this.client
+      .from('arenas')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('status', 'active')
+      .limit(1)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapArenaRow(data) : undefined;
+  }
+
+  async updateArena(
+    id: string,
+    updates: Partial<Arena>,
+    expectedStatus?: ArenaStatus
+  ): Promise<Arena | undefined> {
+    let query = this.client
+      .from('arenas')
+      .update(mapEntityUpdates<Arena>(updates))
+      .eq('id', id);
+
+    // Conditional on the current status, so concurrent transitions apply once
+    if (expectedStatus) {
+      query = query.eq('status', expectedStatus);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return undefined;
+    }
+
+    const arena = mapArenaRow(data);
+    publishArenaEvent({
+      type: 'arena_updated',
+      arena_id: id,
+      arena,
+      timestamp: arena.updated_at,
+    });
+    return arena;
+  }
+
+  // ============================================================================
+  // ARENA PARTICIPANT OPERATIONS
+  // ============================================================================
+
+  async createArenaParticipant(
+    participant: Omit<ArenaParticipant, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ArenaParticipant> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .insert(mapEntityUpdates<ArenaParticipant>(participant))
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('User is already a participant in this arena');
+      }
+      throw new Error(error.message);
+    }
+
+    return mapArenaParticipantRow(data);
+  }
+
+  async getArenaParticipant(
+    arenaId: string,
+    userId: string
+  ): Promise<ArenaParticipant | undefined> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .select('*')
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapArenaParticipantRow(data) : undefined;
+  }
+
+  async getArenaParticipants(arenaId: string): Promise<ArenaParticipant[]> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .select('*')
+      .eq('arena_id', arenaId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapArenaParticipantRow);
+  }
+
+  async getArenaParticipantsByUserId(userId: string): Promise<ArenaParticipant[]> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .select('*')
+      .eq('user_id', userId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapArenaParticipantRow);
+  }
+
+  async getActiveArenaByUserId(userId: string): Promise<Arena | undefined> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .select('arenas!inner(*)')
+      .eq('user_id', userId)
+      .eq('status', 'joined')
+      .eq('arenas.status', 'active')
+      .limit(1);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const row: any = data && data.length > 0 ? data[0] : null;
+    return row ? mapArenaRow(row.arenas) : undefined;
+  }
+
+  async updateArenaParticipant(
+    arenaId: string,
+    userId: string,
+    updates: Partial<ArenaParticipant>
+  ): Promise<ArenaParticipant | undefined> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .update(mapEntityUpdates<ArenaParticipant>(updates))
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION_ERROR_CODE) {
+        throw new Error('User is already a participant in this arena');
+      }
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return undefined;
+    }
+
+    const participant = mapArenaParticipantRow(data);
+    publishArenaEvent({
+      type: 'participant_updated',
+      arena_id: arenaId,
+      participant,
+      timestamp: participant.updated_at,
+    });
+    return participant;
+  }
+
+  async deleteArenaParticipant(arenaId: string, userId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('arena_participants')
+      .delete()
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // ============================================================================
+  // BLE PROXIMITY LOG OPERATIONS
+  // ============================================================================
+
+  async addBleProximityLog(log: Omit<BLEProximityLog, 'id'>): Promise<BLEProximityLog> {
+    const { data, error } = await this.client
+      .from('ble_proximity_logs')
+      .insert({
+        arena_id: log.arena_id,
+        broadcaster_user_id: log.broadcaster_user_id,
+        scanner_user_id: log.scanner_user_id,
+        rssi: log.rssi,
+        distance_estimate_meters: log.distance_estimate_meters ?? null,
+        broadcaster_latitude: log.broadcaster_latitude ?? null,
+        broadcaster_longitude: log.broadcaster_longitude ?? null,
+        scanner_latitude: log.scanner_latitude ?? null,
+        scanner_longitude: log.scanner_longitude ?? null,
+        recorded_at: log.recorded_at.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to record BLE reading');
+    }
+
+    return mapBleProximityLogRow(data);
+  }
+
+  async getBleProximityLogs(arenaId: string, since?: Date): Promise<BLEProximityLog[]> {
+    let query = this.client
+      .from('ble_proximity_logs')
+      .select('*')
+      .eq('arena_id', arenaId);
+
+    if (since) {
+      query = query.gte('recorded_at', since.toISOString());
+    }
+
+    const { data, error } = await query.order('recorded_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapBleProximityLogRow);
+  }
+
+  async deleteBleProximityLogs(arenaId: string, userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('ble_proximity_logs')
+      .delete()
+      .eq('arena_id', arenaId)
+      .or(`broadcaster_user_id.eq.${userId},scanner_user_id.eq.${userId}`);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // ============================================================================
+  // LOCATION FLAG OPERATIONS
+  // ============================================================================
+
+  async addLocationFlag(flag: Omit<LocationFlag, 'id'>): Promise<LocationFlag> {
+    const { data, error } = await this.client
+      .from('location_flags')
+      .insert({
+        arena_id: flag.arena_id,
+        user_id: flag.user_id,
+        kind: flag.kind,
+        action: flag.action,
+        latitude: flag.latitude,
+        longitude: flag.longitude,
+        previous_latitude: flag.previous_latitude ?? null,
+        previous_longitude: flag.previous_longitude ?? null,
+        distance_meters: flag.distance_meters ?? null,
+        speed_mps: flag.speed_mps ?? null,
+        recorded_at: flag.recorded_at.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to record location flag');
+    }
+
+    return mapLocationFlagRow(data);
+  }
+
+  async getLocationFlags(arenaId: string, userId?: string): Promise<LocationFlag[]> {
+    let query = this.client
+      .from('location_flags')
+      .select('*')
+      .eq('arena_id', arenaId);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query.order('recorded_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapLocationFlagRow);
+  }
+
+  async deleteLocationFlags(arenaId: string, userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('location_flags')
+      .delete()
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // ============================================================================
+  // LOCATION TRACK OPERATIONS
+  // ============================================================================
+
+  async addLocationTrackPoint(
+    point: Omit<LocationTrackPoint, 'id'>,
+    maxPoints: number
+  ): Promise<LocationTrackPoint> {
+    // Inserts and drops the oldest points beyond the limit in one call
+    const { data, error } = await this.client
+      .rpc('add_location_track_point', {
+        p_arena_id: point.arena_id,
+        p_user_id: point.user_id,
+        p_latitude: point.latitude,
+        p_longitude: point.longitude,
+        p_accuracy_meters: point.accuracy_meters ?? null,
+        p_source: point.source,
+        p_recorded_at: point.recorded_at.toISOString(),
+        p_max_points: maxPoints,
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || 'Failed to record track point');
+    }
+
+    return mapLocationTrackPointRow(data);
+  }
+
+  async getLocationTrack(
+    arenaId: string,
+    userId: string,
+    from?: Date,
+    to?: Date
+  ): Promise<LocationTrackPoint[]> {
+    let query = this.client
+      .from('location_track_points')
+      .select('*')
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId);
+
+    if (from) {
+      query = query.gte('recorded_at', from.toISOString());
+    }
+    if (to) {
+      query = query.lte('recorded_at', to.toISOString());
+    }
+
+    const { data, error } = await query.order('recorded_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []).map(mapLocationTrackPointRow);
+  }
+
+  async deleteLocationTrackPoints(arenaId: string, userId: string, pointIds: string[]): Promise<void> {
+    if (pointIds.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client
+      .from('location_track_points')
+      .delete()
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId)
+      .in('id', pointIds);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async deleteLocationTrack(arenaId: string, userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('location_track_points')
+      .delete()
+      .eq('arena_id', arenaId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async selectRoom(column: 'id' | 'code', value: string): Promise<Room | undefined> {
+    const { data, error } = await this.client
+      .from('rooms')
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapRoomRow(data) : undefined;
+  }
+
+  private async selectUser(
+    column: 'id' | 'email' | 'username',
+    value: string
+  ): Promise<User | undefined> {
+    const { data, error } = await this.client
+      .from('user_profiles')
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error && error.code !== NO_ROWS_ERROR_CODE) {
+      throw new Error(error.message);
+    }
+
+    return data ? mapUserRow(data) : undefined;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Social Arena - Arena Clock
+ *
+ * Engine-owned game timer. Started by startArena(), it ends the arena
+ * at started_at + duration_minutes with the mode's timeout winner
+ * (prey in most modes, a draw in duels).
+ * Deadlines are always recomputed from started_at, so clocks can be
+ * resumed after an app restart.
+ */
+
+import { Arena, ErrorCodes } from './types';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
+import { endArena } from './arenas';
+import { getGameMode } from './modes/registry';
+
+// ============================================================================
+// CLOCK STATE
+// ============================================================================
+
+const arenaClocks: Map<string, ReturnType<typeof setTimeout>> = new Map();
+const endingArenas: Set<string> = new Set(); // Timeouts currently being applied
+
+// ============================================================================
+// TIME CALCULATION
+// ============================================================================
+
+/**
+ * Get the moment an active arena runs out of time
+ * Returns null if the arena has not started
+ */
+export function getArenaEndTime(arena: Arena): Date | null {
+  if (!arena.started_at) {
+    return null;
+  }
+  return new Date(arena.started_at.getTime() + arena.duration_minutes * 60 * 1000);
+}
+
+/**
+ * Calculate whole seconds left on an arena's clock (never negative)
+ * Returns null if the arena has not started
+ */
+export function calculateTimeRemaining(arena: Arena, now: number = Date.now()): number | null {
+  const endTime = getArenaEndTime(arena);
+  if (!endTime) {
+    return null;
+  }
+  if (arena.status === 'ended') {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((endTime.getTime() - now) / 1000));
+}
+
+/**
+ * Get seconds remaining for an arena
+ * Returns null if the arena does not exist or has not started
+ */
+export async function getTimeRemaining(arenaId: string): Promise<number | null> {
+  const arena = await getStateStore().getArenaById(arenaId);
+  return arena ? calculateTimeRemaining(arena) : null;
+}
+
+// ============================================================================
+// CLOCK MANAGEMENT
+// ============================================================================
+
+/**
+ * Start (or restart) the clock for an active arena
+ * If the deadline has already passed the arena is ended immediately.
+ */
+export function startArenaClock(arena: Arena): void {
+  stopArenaClock(arena.id);
+
+  const endTime = getArenaEndTime(arena);
+  if (arena.status !== 'active' || !endTime) {
+    return;
+  }
+
+  const delay = Math.max(0, endTime.getTime() - Date.now());
+  const timeoutId = setTimeout(() => {
+    arenaClocks.delete(arena.id);
+    handleArenaTimeout(arena.id);
+  }, delay);
+  arenaClocks.set(arena.id, timeoutId);
+}
+
+/**
+ * Stop the clock for an arena (no-op if none is running)
+ */
+export function stopArenaClock(arenaId: string): void {
+  const timeoutId = arenaClocks.get(arenaId);
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+    arenaClocks.delete(arenaId);
+  }
+}
+
+/**
+ * Check whether a clock is running for an arena
+ */
+export function isArenaClockRunning(arenaId: string): boolean {
+  return arenaClocks.has(arenaId);
+}
+
+/**
+ * Resume clocks after an app restart
+ * Restarts the clock for the active arena this device is playing in.
+ */
+export async function resumeArenaClocks(): Promise<void> {
+  try {
+    const userId = await getCurrentUserId();
+    const arena = await getStateStore().getActiveArenaByUserId(userId);
+    if (arena && !arenaClocks.has(arena.id)) {
+      startArenaClock(arena);
+    }
+  } catch (error) {
+    console.error('Error resuming arena clocks:', error);
+  }
+}
+
+/**
+ * End an arena whose time ran out
+ * Guarded locally against overlapping timers; across devices endArena's
+ * conditional update makes sure only one of them applies the timeout.
+ */
+async function handleArenaTimeout(arenaId: string): Promise<void> {
+  if (endingArenas.has(arenaId)) {
+    return;
+  }
+  endingArenas.add(arenaId);
+
+  try {
+    const arena = await getStateStore().getArenaById(arenaId);
+    if (!arena || arena.status !== 'active') {
+      return;
+    }
+
+    // Timer fired early (clock drift or started_at changed) - reschedule
+    const remaining = calculateTimeRemaining(arena);
+    if (remaining !== null && remaining > 0) {
+      startArenaClock(arena);
+      return;
+    }
+
+    const result = await endArena(arenaId, 'timeout', getGameMode(arena.mode)?.timeoutWinner);
+    if (!result.success && result.error.code !== ErrorCodes.ARENA_ALREADY_ENDED) {
+      console.error('Timeout end failed:', result.error.message);
+    }
+  } catch (error) {
+    console.error('Error ending arena on timeout:', error);
+  } finally {
+    endingArenas.delete(arenaId);
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Social Arena - Location Tracks
+ *
+ * Every accepted location fix is appended to the participant's track so
+ * games can be reviewed afterwards. Tracks are capped per participant
+ * and simplified with Douglas-Peucker once the arena ends.
+ */
+
+import {
+  LocationSource,
+  LocationTrackPoint,
+  Result,
+  ArenaError,
+  ErrorCodes,
+} from './types';
+import { getStateStore } from './store';
+import { getCurrentUserId } from './auth';
+import { canSeeSpecter } from './modes/specter';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const LOCATION_TRACK_MAX_POINTS = 3600; // One fix a second for the longest arena
+export const LOCATION_TRACK_TOLERANCE_METERS = 2; // Max deviation introduced by compaction
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface TrackFix {
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number;
+  source: LocationSource;
+  recorded_at: Date;
+}
+
+export interface PathWindow {
+  from?: Date;
+  to?: Date;
+}
+
+export interface TrackCompactionSummary {
+  points_before: number;
+  points_after: number;
+}
+
+// ============================================================================
+// SIMPLIFICATION
+// ============================================================================
+
+/**
+ * Distance in meters from a point to the segment a-b
+ * Uses a local flat projection, which is accurate at arena scale.
+ */
+function distanceToSegment(
+  point: { latitude: number; longitude: number },
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const cosLat = Math.cos(toRadians(a.latitude));
+  const project = (p: { latitude: number; longitude: number }) => ({
+    x: toRadians(p.longitude - a.longitude) * cosLat * EARTH_RADIUS_METERS,
+    y: toRadians(p.latitude - a.latitude) * EARTH_RADIUS_METERS,
+  });
+
+  const p = project(point);
+  const end = project(b);
+  const lengthSquared = end.x * end.x + end.y * end.y;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (p.x * end.x + p.y * end.y) / lengthSquared));
+  return Math.hypot(p.x - t * end.x, p.y - t * end.y);
+}
+
+/**
+ * Douglas-Peucker simplification
+ * Keeps the first and last points and every point needed to stay within
+ * toleranceMeters of the original path.
+ */
+export function simplifyTrack<T extends { latitude: number; longitude: number }>(
+  points: T[],
+  toleranceMeters: number = LOCATION_TRACK_TOLERANCE_METERS
+): T[] {
+  if (points.length <= 2) {
+    return [...points];
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to stay safe on long tracks
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthestIndex = -1;
+    let farthestDistance = toleranceMeters;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > farthestDistance) {
+        farthestDistance = distance;
+        farthestIndex = i;
+      }
+    }
+
+    if (farthestIndex !== -1) {
+      keep[farthestIndex] = true;
+      stack.push([start, farthestIndex], [farthestIndex, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Simplify a track, keeping the points where the source changes
+ */
+export function compactTrack(
+  points: LocationTrackPoint[],
+  toleranceMeters: number = LOCATION_TRACK_TOLERANCE_METERS
+): LocationTrackPoint[] {
+  const compacted: LocationTrackPoint[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= points.length; i++) {
+    if (i === points.length || points[i].source !== points[runStart].source) {
+      compacted.push(...simplifyTrack(points.slice(runStart, i), toleranceMeters));
+      runStart = i;
+    }
+  }
+  return compacted;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Append an accepted fix to a participant's track
+ */
+export async function recordTrackPoint(
+  arenaId: string,
+  userId: string,
+  fix: TrackFix
+): Promise<LocationTrackPoint> {
+  return getStateStore().addLocationTrackPoint(
+    {
+      arena_id: arenaId,
+      user_id: userId,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracy_meters: fix.accuracy_meters,
+      source: fix.source,
+      recorded_at: fix.recorded_at,
+    },
+    LOCATION_TRACK_MAX_POINTS
+  );
+}
+
+/**
+ * Simplify every participant's track in an arena
+ * Run once the arena ends; running it again removes nothing new.
+ */
+export async function compactArenaTracks(
+  arenaId: string
+): Promise<Result<TrackCompactionSummary, ArenaError>> {
+  try {
+    const store = getStateStore();
+    const summary: TrackCompactionSummary = { points_before: 0, points_after: 0 };
+
+    const participants = await store.getArenaParticipants(arenaId);
+    for (const participant of participants) {
+      const track = await store.getLocationTrack(arenaId, participant.user_id);
+      const kept = new Set(compactTrack(track).map(point => point.id));
+      const removedIds = track.filter(point => !kept.has(point.id)).map(point => point.id);
+
+      await store.deleteLocationTrackPoints(arenaId, participant.user_id, removedIds);
+      summary.points_before += track.length;
+      summary.points_after += kept.size;
+    }
+
+    return {
+      success: true,
+      data: summary,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to compact tracks',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get a participant's path within a time window, oldest first
+ * Open to room members; a hidden specter's path stays hidden while the
+ * arena is running, like its coordinates.
+ */
+export async function getParticipantPath(
+  arenaId: string,
+  userId: string,
+  window: PathWindow = {}
+): Promise<Result<LocationTrackPoint[], ArenaError>> {
+  try {
+    const viewerId = await getCurrentUserId();
+    const store = getStateStore();
+
+    if (window.from && window.to && window.from.getTime() > window.to.getTime()) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Window start must not be after its end',
+          ErrorCodes.INVALID_INPUT
+        ),
+      };
+    }
+
+    const arena = await store.getArenaById(arenaId);
+    if (!arena) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Arena not found',
+          ErrorCodes.ARENA_NOT_FOUND
+        ),
+      };
+    }
+
+    if (!(await store.isRoomMember(arena.room_id, viewerId))) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'You are not a member of this room',
+          ErrorCodes.NOT_MEMBER
+        ),
+      };
+    }
+
+    const participants = await store.getArenaParticipants(arenaId);
+    const participant = participants.find(p => p.user_id === userId);
+    if (!participant) {
+      return {
+        success: false,
+        error: new ArenaError(
+          'Participant not found',
+          ErrorCodes.PARTICIPANT_NOT_FOUND
+        ),
+      };
+    }
+
+    const viewer = participants.find(p => p.user_id === viewerId);
+    if (participant.role === 'hunter' && !canSeeSpecter(arena, viewer)) {
+      return {
+        success: false,
+        error: new ArenaError(
+          "This player's path is hidden until the arena ends",
+          ErrorCodes.UNAUTHORIZED
+        ),
+      };
+    }
+
+    const track = await store.getLocationTrack(arenaId, userId, window.from, window.to);
+    return {
+      success: true,
+      data: track,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: new ArenaError(
+        error.message || 'Failed to get path',
+        ErrorCodes.INVALID_INPUT
+      ),
+    };
+  }
+}
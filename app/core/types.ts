@@ -13,23 +13,63 @@ export type ArenaStatus = 'lobby' | 'active' | 'ended';
 export type GameMode = 'predators' | 'outbreak' | 'specter' | 'duel';
 export type ParticipantRole = 'prey' | 'hunter' | 'spectator';
 export type ParticipantStatus = 'joined' | 'left' | 'captured' | 'escaped' | 'disconnected';
+export type LocationSource = 'gps' | 'fake' | 'simulated';
+export type LocationFlagKind = 'speed' | 'teleport' | 'replay';
 
 // ============================================================================
 // DOMAIN ENTITIES
 // ============================================================================
 
+/**
+ * A user account
+ * The password hash stays inside the store (see StateStore.checkPasswordHash).
+ */
 export interface User {
   id: string; // UUID
   email: string;
-  password_hash: string; // Never exposed to client
   username: string;
   display_name?: string;
   avatar_url?: string;
   created_at: Date;
   updated_at: Date;
   last_seen_at?: Date;
+  email_verified_at?: Date;
+}
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+/**
+ * Single-use token sent by email (only its hash is stored)
+ */
+export interface AccountToken {
+  id: string;
+  user_id: string;
+  purpose: AccountTokenPurpose;
+  token_hash: string; // base64 SHA-256 of the token
+  email: string; // Address the token was sent to
+  expires_at: Date;
+  used_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * A sign-in session
+ * The store also keeps SHA-256 hashes of the current refresh token ID and
+ * the one it replaced, but never hands them out.
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  created_at: Date;
+  expires_at: Date; // Refresh token expiry
+  last_refreshed_at?: Date;
+  revoked_at?: Date;
 }
 
+// Outcome of presenting a refresh token: 'reused' means a rotated-out
+// token came back, which revokes the session
+export type SessionRotation = 'rotated' | 'reused' | 'invalid';
+
 export interface Room {
   id: string; // UUID
   name: string;
@@ -42,14 +82,51 @@ export interface Room {
   updated_at: Date;
 }
 
+export type RoomRole = 'owner' | 'admin' | 'member';
+
 export interface RoomMember {
   id: string; // UUID
   room_id: string; // UUID -> Room.id
   user_id: string; // UUID -> User.id
-  role: 'owner' | 'admin' | 'member';
+  role: RoomRole;
   joined_at: Date;
 }
 
+export interface RoomBan {
+  id: string; // UUID
+  room_id: string; // UUID -> Room.id
+  user_id: string; // UUID -> User.id
+  banned_by: string; // UUID -> User.id
+  reason?: string;
+  created_at: Date;
+}
+
+export interface RoomInvite {
+  id: string; // UUID
+  room_id: string; // UUID -> Room.id
+  token: string; // Shared in the invite link
+  created_by: string; // UUID -> User.id
+  expires_at?: Date; // Never expires if unset
+  max_uses?: number; // Unlimited if unset
+  use_count: number;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * Per-arena game settings (bounds and defaults come from the mode's schema)
+ */
+export interface ArenaSettings {
+  capture_distance_meters: number; // Distance required for capture
+  capture_hold_ms: number; // Duration a hunter must stay in capture range
+  warning_distance_meters: number; // Distance for warning feedback
+  capture_confidence_threshold: number; // Fused confidence (0-1) required to count as in range
+  capture_exit_margin_meters: number; // A hold only breaks beyond capture distance + margin
+  capture_dropout_ms: number; // Out-of-range or missing samples tolerated during a hold
+  max_hunters?: number; // Predators / Outbreak (initial hunters)
+  max_prey?: number; // Predators / Specter
+}
+
 export interface Arena {
   id: string; // UUID
   room_id: string; // UUID -> Room.id
@@ -59,7 +136,7 @@ export interface Arena {
   started_at?: Date;
   ended_at?: Date;
   duration_minutes: number;
-  settings: Record<string, any>; // JSONB
+  settings: Partial<ArenaSettings>; // JSONB - read through getArenaSettings()
   winner_team?: 'hunters' | 'prey';
   ended_reason?: 'capture' | 'timeout' | 'host_ended' | 'all_left' | 'cancelled' | 'error';
   created_at: Date;
@@ -80,12 +157,56 @@ export interface ArenaParticipant {
   last_latitude?: number;
   last_longitude?: number;
   last_location_updated_at?: Date;
+  last_location_accuracy_meters?: number; // Reported by the device (unset for simulated fixes)
+  last_location_source?: LocationSource;
+  location_quarantined_until?: Date; // GPS ignored for captures until then
+  suspicion_score?: number; // Sum of movement flag weights (see antiCheat.ts)
   is_ble_broadcasting: boolean;
   ble_started_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface BLEProximityLog {
+  id: string; // UUID
+  arena_id: string; // UUID -> Arena.id
+  broadcaster_user_id: string; // UUID -> User.id (prey)
+  scanner_user_id: string; // UUID -> User.id (hunter)
+  rssi: number;
+  distance_estimate_meters?: number;
+  broadcaster_latitude?: number;
+  broadcaster_longitude?: number;
+  scanner_latitude?: number;
+  scanner_longitude?: number;
+  recorded_at: Date;
+}
+
+export interface LocationTrackPoint {
+  id: string; // UUID
+  arena_id: string; // UUID -> Arena.id
+  user_id: string; // UUID -> User.id
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number;
+  source: LocationSource;
+  recorded_at: Date;
+}
+
+export interface LocationFlag {
+  id: string; // UUID
+  arena_id: string; // UUID -> Arena.id
+  user_id: string; // UUID -> User.id
+  kind: LocationFlagKind;
+  action: 'rejected' | 'quarantined';
+  latitude: number; // The flagged fix
+  longitude: number;
+  previous_latitude?: number;
+  previous_longitude?: number;
+  distance_meters?: number; // From the previous fix
+  speed_mps?: number;
+  recorded_at: Date;
+}
+
 // ============================================================================
 // RESULT TYPES
 // ============================================================================
@@ -115,12 +236,21 @@ export const ErrorCodes = {
   EMAIL_EXISTS: 'EMAIL_EXISTS',
   USERNAME_EXISTS: 'USERNAME_EXISTS',
   UNAUTHORIZED: 'UNAUTHORIZED',
+  INVALID_TOKEN: 'INVALID_TOKEN',
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  SESSION_REVOKED: 'SESSION_REVOKED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  USER_NOT_FOUND: 'USER_NOT_FOUND',
   
   // Rooms
   ROOM_NOT_FOUND: 'ROOM_NOT_FOUND',
   ALREADY_MEMBER: 'ALREADY_MEMBER',
   NOT_MEMBER: 'NOT_MEMBER',
   ROOM_FULL: 'ROOM_FULL',
+  INSUFFICIENT_ROLE: 'INSUFFICIENT_ROLE',
+  BANNED: 'BANNED',
+  INVITE_EXPIRED: 'INVITE_EXPIRED',
+  INVITE_USED_UP: 'INVITE_USED_UP',
   
   // Arenas
   ARENA_NOT_FOUND: 'ARENA_NOT_FOUND',
@@ -139,6 +269,7 @@ export const ErrorCodes = {
   ALREADY_PARTICIPANT: 'ALREADY_PARTICIPANT',
   CANNOT_REJOIN_ACTIVE: 'CANNOT_REJOIN_ACTIVE',
   PARTICIPANT_NOT_FOUND: 'PARTICIPANT_NOT_FOUND',
+  LOCATION_REJECTED: 'LOCATION_REJECTED',
   
   // Validation
   INVALID_INPUT: 'INVALID_INPUT',
@@ -150,7 +281,34 @@ export const ErrorCodes = {
 // ============================================================================
 
 export type UserWithoutPassword = Omit<User, 'password_hash'>;
+export type PublicProfile = Pick<UserWithoutPassword, 'id' | 'username' | 'display_name' | 'avatar_url'>;
+export interface AuthResponse {
+  user: UserWithoutPassword;
+  token: string; // Access token
+  refresh_token: string;
+  expires_at: Date; // Access token expiry
+}
 export type ArenaWithParticipants = Arena & {
   participants: ArenaParticipant[];
 };
 
+// BLE scanner reading, as reported by a hunter's device
+export interface BLEProximityUpdate {
+  arena_id: string;
+  broadcaster_user_id: string; // Prey
+  scanner_user_id: string; // Hunter
+  rssi: number;
+  timestamp: Date;
+}
+
+export type RoomWithMemberCount = Room & {
+  member_count: number;
+  active_arena_count: number;
+};
+
+export interface PublicRoomFilter {
+  search?: string; // Matches anywhere in the room name, case-insensitive
+  mode?: GameMode; // Only rooms with a lobby or active arena in this mode
+  has_open_slots?: boolean; // Only rooms below max_members
+}
+
@@ -1,6 +1,422 @@
 -- Social Arena - Supabase Database Schema
 -- 
--- Rooms and room members tables for cross-device multiplayer
+-- Users, sessions, account tokens, rooms, room members, room bans, room invites, arenas, arena participants and BLE proximity logs
+-- for cross-device multiplayer. Credentials are only reachable through the security definer functions below.
+
+-- Users table (accounts; ids are UUIDs so they are unique across devices)
+create table if not exists users (
+  id uuid primary key default gen_random_uuid(),
+  email text unique not null,
+  password_hash text not null,
+  username text unique not null,
+  display_name text,
+  avatar_url text,
+  last_seen_at timestamptz,
+  email_verified_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- PBKDF2-HMAC-SHA256 as in core/passwords.ts (one 32-byte block)
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function pbkdf2_sha256(password text, salt bytea, iterations int)
+returns bytea
+language plpgsql
+immutable
+set search_path = public, extensions
+as $$
+declare
+  password_key bytea := convert_to(password, 'UTF8');
+  block bytea;
+  derived bit(256);
+  derived_hex text := '';
+begin
+  block := hmac(salt || '\x00000001'::bytea, password_key, 'sha256');
+  derived := ('x' || encode(block, 'hex'))::bit(256);
+  for i in 2..iterations loop
+    block := hmac(block, password_key, 'sha256');
+    derived := derived # ('x' || encode(block, 'hex'))::bit(256);
+  end loop;
+
+  for i in 0..3 loop
+    derived_hex := derived_hex || lpad(to_hex(substring(derived from i * 64 + 1 for 64)::bigint), 16, '0');
+  end loop;
+  return decode(derived_hex, 'hex');
+end;
+$$;
+
+-- One-off upgrade of legacy "hashed:<password>" placeholders to real hashes.
+-- Run once from the SQL editor: select migrate_placeholder_passwords();
+create or replace function migrate_placeholder_passwords()
+returns int
+language plpgsql
+set search_path = public, extensions
+as $$
+declare
+  account record;
+  salt bytea;
+  migrated int := 0;
+begin
+  for account in
+    select id, password_hash from users where password_hash like 'hashed:%' for update
+  loop
+    salt := gen_random_bytes(16);
+    update users
+    set password_hash = 'pbkdf2_sha256$20000$' || encode(salt, 'base64') || '$'
+          || encode(pbkdf2_sha256(substr(account.password_hash, 8), salt, 20000), 'base64'),
+        updated_at = now()
+    where id = account.id;
+    migrated := migrated + 1;
+  end loop;
+  return migrated;
+end;
+$$;
+
+revoke execute on function migrate_placeholder_passwords() from public, anon, authenticated;
+
+-- Sessions table (refresh tokens are verified against it; only token hashes are stored)
+create table if not exists sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  refresh_token_hash text not null,
+  previous_refresh_token_hash text,
+  expires_at timestamptz not null,
+  last_refreshed_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Account tokens table (password reset and email verification; only token hashes are stored)
+create table if not exists account_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  purpose text not null,
+  token_hash text unique not null,
+  email text not null,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint valid_token_purpose check (purpose in ('password_reset', 'email_verification'))
+);
+
+-- Credentials: users, sessions and account_tokens are closed to the client
+-- (see the policies below). Profiles are read through user_profiles; every
+-- other access goes through these security definer functions, which compare
+-- and replace hashes but never return one. A password is checked by deriving
+-- a hash with the stored parameters (get_password_params) on the device.
+
+create or replace view user_profiles as
+select id, email, username, display_name, avatar_url, last_seen_at, email_verified_at, created_at, updated_at
+from users;
+
+create or replace function create_user(
+  p_email text,
+  p_username text,
+  p_password_hash text,
+  p_display_name text,
+  p_avatar_url text
+)
+returns setof user_profiles
+language sql
+security definer
+set search_path = public
+as $$
+  insert into users (email, username, password_hash, display_name, avatar_url)
+  values (p_email, p_username, p_password_hash, p_display_name, p_avatar_url)
+  returning id, email, username, display_name, avatar_url, last_seen_at, email_verified_at, created_at, updated_at;
+$$;
+
+-- Profile columns only; password_hash can't be set this way
+create or replace function update_user(p_user_id uuid, p_updates jsonb)
+returns setof user_profiles
+language sql
+security definer
+set search_path = public
+as $$
+  update users set
+    email = coalesce(p_updates->>'email', email),
+    username = coalesce(p_updates->>'username', username),
+    display_name = case when p_updates ? 'display_name' then p_updates->>'display_name' else display_name end,
+    avatar_url = case when p_updates ? 'avatar_url' then p_updates->>'avatar_url' else avatar_url end,
+    last_seen_at = case when p_updates ? 'last_seen_at' then (p_updates->>'last_seen_at')::timestamptz else last_seen_at end,
+    email_verified_at = case when p_updates ? 'email_verified_at' then (p_updates->>'email_verified_at')::timestamptz else email_verified_at end,
+    updated_at = now()
+  where id = p_user_id
+  returning id, email, username, display_name, avatar_url, last_seen_at, email_verified_at, created_at, updated_at;
+$$;
+
+-- Delete an account with its sessions and account tokens (requires the password hash)
+create or replace function delete_user(p_user_id uuid, p_password_hash text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from users where id = p_user_id and password_hash = p_password_hash;
+  if not found then
+    return false;
+  end if;
+  delete from sessions where user_id = p_user_id::text;
+  delete from account_tokens where user_id = p_user_id::text;
+  return true;
+end;
+$$;
+
+-- The stored hash without its digest: "<algorithm>$<iterations>$<salt>", or "hashed:" for placeholders
+create or replace function get_password_params(p_user_id uuid)
+returns text
+language sql
+security definer
+set search_path = public
+as $$
+  select case
+    when password_hash like 'hashed:%' then 'hashed:'
+    else regexp_replace(password_hash, '\$[^$]*$', '')
+  end
+  from users
+  where id = p_user_id;
+$$;
+
+create or replace function check_password(p_user_id uuid, p_password_hash text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from users where id = p_user_id and password_hash = p_password_hash);
+$$;
+
+-- Replace a password hash, only while the current one still matches
+create or replace function replace_password(p_user_id uuid, p_current_hash text, p_password_hash text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with replaced as (
+    update users
+    set password_hash = p_password_hash, updated_at = now()
+    where id = p_user_id and password_hash = p_current_hash
+    returning 1
+  )
+  select exists (select 1 from replaced);
+$$;
+
+create or replace function create_session(p_user_id text, p_refresh_token_hash text, p_expires_at timestamptz)
+returns table (
+  id uuid,
+  user_id text,
+  expires_at timestamptz,
+  last_refreshed_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into sessions (user_id, refresh_token_hash, expires_at)
+  values (p_user_id, p_refresh_token_hash, p_expires_at)
+  returning id, user_id, expires_at, last_refreshed_at, revoked_at, created_at;
+$$;
+
+create or replace function get_session(p_session_id uuid)
+returns table (
+  id uuid,
+  user_id text,
+  expires_at timestamptz,
+  last_refreshed_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select s.id, s.user_id, s.expires_at, s.last_refreshed_at, s.revoked_at, s.created_at
+  from sessions s
+  where s.id = p_session_id;
+$$;
+
+-- Rotate a session's refresh token: 'rotated', 'reused' (a rotated-out token
+-- came back, so the session is revoked) or 'invalid'. The conditional update
+-- lets only one of two concurrent refreshes with the same token win.
+create or replace function rotate_session(
+  p_session_id uuid,
+  p_refresh_token_hash text,
+  p_next_refresh_token_hash text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update sessions
+  set previous_refresh_token_hash = refresh_token_hash,
+      refresh_token_hash = p_next_refresh_token_hash,
+      last_refreshed_at = now(),
+      updated_at = now()
+  where id = p_session_id
+    and refresh_token_hash = p_refresh_token_hash
+    and revoked_at is null
+    and expires_at > now();
+  if found then
+    return 'rotated';
+  end if;
+
+  update sessions
+  set revoked_at = coalesce(revoked_at, now()), updated_at = now()
+  where id = p_session_id and previous_refresh_token_hash = p_refresh_token_hash;
+  if found then
+    return 'reused';
+  end if;
+
+  return 'invalid';
+end;
+$$;
+
+create or replace function revoke_session(p_session_id uuid, p_refresh_token_hash text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with revoked as (
+    update sessions
+    set revoked_at = coalesce(revoked_at, now()), updated_at = now()
+    where id = p_session_id and refresh_token_hash = p_refresh_token_hash
+    returning 1
+  )
+  select exists (select 1 from revoked);
+$$;
+
+-- Revoke every session of the user who owns the given (live) session
+create or replace function revoke_user_sessions(p_session_id uuid, p_refresh_token_hash text)
+returns int
+language sql
+security definer
+set search_path = public
+as $$
+  with owner as (
+    select user_id from sessions
+    where id = p_session_id and refresh_token_hash = p_refresh_token_hash and revoked_at is null
+  ), revoked as (
+    update sessions
+    set revoked_at = now(), updated_at = now()
+    where user_id in (select user_id from owner) and revoked_at is null
+    returning 1
+  )
+  select count(*)::int from revoked;
+$$;
+
+-- Issue an account token, invalidating the user's unused ones for the purpose
+create or replace function issue_account_token(
+  p_user_id text,
+  p_purpose text,
+  p_token_hash text,
+  p_email text,
+  p_expires_at timestamptz
+)
+returns table (
+  id uuid,
+  user_id text,
+  purpose text,
+  email text,
+  expires_at timestamptz,
+  used_at timestamptz,
+  created_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  update account_tokens
+  set used_at = now(), updated_at = now()
+  where account_tokens.user_id = p_user_id and account_tokens.purpose = p_purpose and account_tokens.used_at is null;
+
+  insert into account_tokens (user_id, purpose, token_hash, email, expires_at)
+  values (p_user_id, p_purpose, p_token_hash, p_email, p_expires_at)
+  returning id, user_id, purpose, email, expires_at, used_at, created_at;
+$$;
+
+create or replace function get_account_token(p_token_hash text)
+returns table (
+  id uuid,
+  user_id text,
+  purpose text,
+  email text,
+  expires_at timestamptz,
+  used_at timestamptz,
+  created_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select t.id, t.user_id, t.purpose, t.email, t.expires_at, t.used_at, t.created_at
+  from account_tokens t
+  where t.token_hash = p_token_hash;
+$$;
+
+-- Mark a token used, only if it is unused and unexpired
+create or replace function use_account_token(p_token_hash text)
+returns table (
+  id uuid,
+  user_id text,
+  purpose text,
+  email text,
+  expires_at timestamptz,
+  used_at timestamptz,
+  created_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  update account_tokens t
+  set used_at = now(), updated_at = now()
+  where t.token_hash = p_token_hash and t.used_at is null and t.expires_at > now()
+  returning t.id, t.user_id, t.purpose, t.email, t.expires_at, t.used_at, t.created_at;
+$$;
+
+-- Use a password reset token, set the new hash and revoke the user's sessions
+-- in one transaction. Returns the user id, or null for an unusable token.
+create or replace function reset_password(p_token_hash text, p_password_hash text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reset_user_id text;
+begin
+  update account_tokens t
+  set used_at = now(), updated_at = now()
+  where t.token_hash = p_token_hash
+    and t.purpose = 'password_reset'
+    and t.used_at is null
+    and t.expires_at > now()
+  returning t.user_id into reset_user_id;
+  if reset_user_id is null then
+    return null;
+  end if;
+
+  update users set password_hash = p_password_hash, updated_at = now()
+  where id::text = reset_user_id;
+  if not found then
+    return null;
+  end if;
+
+  update sessions set revoked_at = now(), updated_at = now()
+  where user_id = reset_user_id and revoked_at is null;
+  return reset_user_id;
+end;
+$$;
 
 -- Rooms table
 create table if not exists rooms (
@@ -11,6 +427,7 @@ create table if not exists rooms (
   max_players int not null,
   name text,
   description text,
+  is_public boolean not null default false,
   created_at timestamp default now()
 );
 
@@ -24,19 +441,283 @@ create table if not exists room_members (
   unique (room_id, user_id)
 );
 
+-- Room bans table (checked when joining a room)
+create table if not exists room_bans (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references rooms(id) on delete cascade,
+  user_id text not null,
+  banned_by text not null,
+  reason text,
+  created_at timestamptz default now(),
+  unique (room_id, user_id)
+);
+
+-- Room invites table (expiring, limited-use invite links)
+create table if not exists room_invites (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references rooms(id) on delete cascade,
+  token text unique not null,
+  created_by text not null,
+  expires_at timestamptz,
+  max_uses int,
+  use_count int not null default 0,
+  revoked_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint valid_max_uses check (max_uses is null or max_uses > 0)
+);
+
+-- Count one use of an invite unless it is revoked, expired or used up.
+-- A single conditional update, so concurrent redemptions can't exceed max_uses.
+create or replace function claim_room_invite_use(invite_id uuid)
+returns setof room_invites
+language sql
+as $$
+  update room_invites
+  set use_count = use_count + 1, updated_at = now()
+  where id = invite_id
+    and revoked_at is null
+    and (expires_at is null or expires_at > now())
+    and (max_uses is null or use_count < max_uses)
+  returning *;
+$$;
+
+-- Give back a use claimed by a redemption that then failed
+create or replace function release_room_invite_use(invite_id uuid)
+returns void
+language sql
+as $$
+  update room_invites
+  set use_count = greatest(use_count - 1, 0), updated_at = now()
+  where id = invite_id;
+$$;
+
+-- Arenas table (mirrors docs/database-schema.sql, user ids are device ids)
+create table if not exists arenas (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references rooms(id) on delete cascade,
+  mode text not null default 'predators',
+  status text not null default 'lobby',
+  host_id text not null,
+  started_at timestamptz,
+  ended_at timestamptz,
+  duration_minutes int not null default 12,
+  settings jsonb not null default '{}',
+  winner_team text,
+  ended_reason text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint valid_mode check (mode in ('predators', 'outbreak', 'specter', 'duel')),
+  constraint valid_status check (status in ('lobby', 'active', 'ended')),
+  constraint valid_duration check (duration_minutes > 0 and duration_minutes <= 60),
+  constraint valid_winner check (winner_team is null or winner_team in ('hunters', 'prey'))
+);
+
+-- Arena participants table
+create table if not exists arena_participants (
+  id uuid primary key default gen_random_uuid(),
+  arena_id uuid not null references arenas(id) on delete cascade,
+  user_id text not null,
+  role text not null,
+  status text not null default 'joined',
+  joined_at timestamptz default now(),
+  left_at timestamptz,
+  is_captured boolean not null default false,
+  captured_at timestamptz,
+  captured_by_user_id text,
+  last_latitude double precision,
+  last_longitude double precision,
+  last_location_updated_at timestamptz,
+  last_location_accuracy_meters double precision,
+  last_location_source text,
+  location_quarantined_until timestamptz,
+  suspicion_score double precision not null default 0,
+  is_ble_broadcasting boolean not null default false,
+  ble_started_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (arena_id, user_id),
+  constraint valid_role check (role in ('prey', 'hunter', 'spectator')),
+  constraint valid_participant_status check (status in ('joined', 'left', 'captured', 'escaped', 'disconnected'))
+);
+
+-- BLE proximity logs table (hunter scans of prey beacons)
+create table if not exists ble_proximity_logs (
+  id uuid primary key default gen_random_uuid(),
+  arena_id uuid not null references arenas(id) on delete cascade,
+  broadcaster_user_id text not null,
+  scanner_user_id text not null,
+  rssi int not null,
+  distance_estimate_meters double precision,
+  broadcaster_latitude double precision,
+  broadcaster_longitude double precision,
+  scanner_latitude double precision,
+  scanner_longitude double precision,
+  recorded_at timestamptz not null default now()
+);
+
+-- Location flags table (movements rejected or quarantined by the anti-cheat)
+create table if not exists location_flags (
+  id uuid primary key default gen_random_uuid(),
+  arena_id uuid not null references arenas(id) on delete cascade,
+  user_id text not null,
+  kind text not null,
+  action text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  previous_latitude double precision,
+  previous_longitude double precision,
+  distance_meters double precision,
+  speed_mps double precision,
+  recorded_at timestamptz not null default now(),
+  constraint valid_flag_kind check (kind in ('speed', 'teleport', 'replay')),
+  constraint valid_flag_action check (action in ('rejected', 'quarantined'))
+);
+
+-- Location track points table (accepted fixes per participant, compacted when the arena ends)
+create table if not exists location_track_points (
+  id uuid primary key default gen_random_uuid(),
+  arena_id uuid not null references arenas(id) on delete cascade,
+  user_id text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  accuracy_meters double precision,
+  source text not null,
+  recorded_at timestamptz not null default now(),
+  constraint valid_track_source check (source in ('gps', 'fake', 'simulated'))
+);
+
+-- Record a track point and drop the participant's oldest points beyond the cap,
+-- in one round trip
+create or replace function add_location_track_point(
+  p_arena_id uuid,
+  p_user_id text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy_meters double precision,
+  p_source text,
+  p_recorded_at timestamptz,
+  p_max_points int
+)
+returns location_track_points
+language plpgsql
+as $$
+declare
+  inserted location_track_points;
+begin
+  insert into location_track_points (arena_id, user_id, latitude, longitude, accuracy_meters, source, recorded_at)
+  values (p_arena_id, p_user_id, p_latitude, p_longitude, p_accuracy_meters, p_source, p_recorded_at)
+  returning * into inserted;
+
+  delete from location_track_points
+  where id in (
+    select id from location_track_points
+    where arena_id = p_arena_id and user_id = p_user_id
+    order by recorded_at desc, id desc
+    offset p_max_points
+  );
+
+  return inserted;
+end;
+$$;
+
+-- Public room directory with member and arena counts (one query per page)
+create or replace view public_room_summaries as
+select
+  r.*,
+  coalesce(m.member_count, 0) as member_count,
+  coalesce(a.active_arena_count, 0) as active_arena_count,
+  coalesce(a.open_arena_modes, '{}') as open_arena_modes,
+  coalesce(m.member_count, 0) < r.max_players as has_open_slots
+from rooms r
+left join (
+  select room_id, count(*)::int as member_count
+  from room_members
+  group by room_id
+) m on m.room_id = r.id
+left join (
+  select
+    room_id,
+    (count(*) filter (where status = 'active'))::int as active_arena_count,
+    array_agg(distinct mode) filter (where status <> 'ended') as open_arena_modes
+  from arenas
+  group by room_id
+) a on a.room_id = r.id
+where r.is_public = true;
+
 -- Indexes for performance
+create index if not exists idx_sessions_user_id on sessions(user_id);
+create index if not exists idx_account_tokens_user_id on account_tokens(user_id);
 create index if not exists idx_rooms_code on rooms(code);
+create index if not exists idx_rooms_public on rooms(created_at) where is_public = true;
 create index if not exists idx_room_members_room_id on room_members(room_id);
 create index if not exists idx_room_members_user_id on room_members(user_id);
+create index if not exists idx_room_bans_room_id on room_bans(room_id);
+create index if not exists idx_room_invites_room_id on room_invites(room_id);
+create index if not exists idx_arenas_room_id on arenas(room_id);
+create index if not exists idx_arenas_active on arenas(status, room_id) where status = 'active';
+create index if not exists idx_arena_participants_arena_id on arena_participants(arena_id);
+create index if not exists idx_arena_participants_user_id on arena_participants(user_id);
+create index if not exists idx_ble_logs_arena_recorded on ble_proximity_logs(arena_id, recorded_at);
+create index if not exists idx_location_flags_arena_recorded on location_flags(arena_id, recorded_at);
+create index if not exists idx_track_points_arena_user_recorded on location_track_points(arena_id, user_id, recorded_at);
 
 -- Enable Row Level Security (RLS)
+alter table users enable row level security;
+alter table sessions enable row level security;
+alter table account_tokens enable row level security;
 alter table rooms enable row level security;
 alter table room_members enable row level security;
+alter table room_bans enable row level security;
+alter table room_invites enable row level security;
+alter table arenas enable row level security;
+alter table arena_participants enable row level security;
+alter table ble_proximity_logs enable row level security;
+alter table location_flags enable row level security;
+alter table location_track_points enable row level security;
+
+-- RLS Policies: users, sessions and account_tokens allow no direct access at
+-- all (only the functions above, which run as the table owner, reach them)
+drop policy if exists "Allow all operations on users" on users;
+drop policy if exists "Allow all operations on sessions" on sessions;
+drop policy if exists "Allow all operations on account_tokens" on account_tokens;
+
+create policy "No direct access to users" on users
+  for all using (false) with check (false);
+
+create policy "No direct access to sessions" on sessions
+  for all using (false) with check (false);
 
--- RLS Policies: Allow all operations for now (will be restricted with auth later)
+create policy "No direct access to account_tokens" on account_tokens
+  for all using (false) with check (false);
+
+revoke all on users, sessions, account_tokens from anon, authenticated;
+
+-- The remaining tables allow all operations for now (will be restricted with auth later)
 create policy "Allow all operations on rooms" on rooms
   for all using (true) with check (true);
 
 create policy "Allow all operations on room_members" on room_members
   for all using (true) with check (true);
 
+create policy "Allow all operations on room_bans" on room_bans
+  for all using (true) with check (true);
+
+create policy "Allow all operations on room_invites" on room_invites
+  for all using (true) with check (true);
+
+create policy "Allow all operations on arenas" on arenas
+  for all using (true) with check (true);
+
+create policy "Allow all operations on arena_participants" on arena_participants
+  for all using (true) with check (true);
+
+create policy "Allow all operations on ble_proximity_logs" on ble_proximity_logs
+  for all using (true) with check (true);
+
+create policy "Allow all operations on location_flags" on location_flags
+  for all using (true) with check (true);
+
+create policy "Allow all operations on location_track_points" on location_track_points
+  for all using (true) with check (true);
+
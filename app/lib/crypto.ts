@@ -0,0 +1,450 @@
+/**
+ * Social Arena - Crypto Utilities
+ *
+ * Pure-JS SHA-256, HMAC-SHA256 and PBKDF2 so hashing works the same in
+ * Hermes, Node and the browser without native modules. PBKDF2 uses native
+ * WebCrypto where available and otherwise yields between chunks so it
+ * never blocks the UI thread for long. Random bytes always come from a
+ * secure native source.
+ */
+
+import * as ExpoCrypto from 'expo-crypto';
+
+/**
+ * The parts of WebCrypto used here
+ * Hermes may not define crypto at all, so every member is optional.
+ */
+interface WebCryptoGlobal {
+  crypto?: {
+    subtle?: {
+      importKey(
+        format: 'raw',
+        keyData: Uint8Array,
+        algorithm: 'PBKDF2',
+        extractable: boolean,
+        keyUsages: string[]
+      ): Promise<unknown>;
+      deriveBits(
+        algorithm: { name: 'PBKDF2'; hash: 'SHA-256'; salt: Uint8Array; iterations: number },
+        baseKey: unknown,
+        length: number
+      ): Promise<ArrayBuffer>;
+    };
+    getRandomValues?: (array: Uint8Array) => Uint8Array;
+  };
+}
+
+const webCryptoGlobal = globalThis as WebCryptoGlobal;
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+
+    // Combine surrogate pairs
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes to a string
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const b0 = bytes[i];
+    let code: number;
+    if (b0 < 0x80) {
+      code = b0;
+    } else if (b0 < 0xe0) {
+      code = ((b0 & 0x1f) << 6) | (bytes[++i] & 0x3f);
+    } else if (b0 < 0xf0) {
+      code = ((b0 & 0x0f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+    } else {
+      code =
+        ((b0 & 0x07) << 18) |
+        ((bytes[++i] & 0x3f) << 12) |
+        ((bytes[++i] & 0x3f) << 6) |
+        (bytes[++i] & 0x3f);
+    }
+    output += String.fromCodePoint(code);
+  }
+  return output;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode bytes as base64
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+
+    output += BASE64_ALPHABET[(triple >> 18) & 0x3f];
+    output += BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return output;
+}
+
+/**
+ * Decode base64 to bytes
+ * Returns null for malformed input
+ */
+export function fromBase64(encoded: string): Uint8Array | null {
+  const clean = encoded.replace(/=+$/, '');
+  if (/[^A-Za-z0-9+/]/.test(clean) || clean.length % 4 === 1) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode bytes as unpadded URL-safe base64
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode URL-safe base64
+ * Returns null for malformed input
+ */
+export function fromBase64Url(encoded: string): Uint8Array | null {
+  if (/[+/=]/.test(encoded)) {
+    return null;
+  }
+  return fromBase64(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+// ============================================================================
+// SHA-256
+// ============================================================================
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Incremental SHA-256 hasher
+ * clone() lets HMAC reuse the keyed inner/outer states across iterations.
+ */
+class Sha256 {
+  private state = new Uint32Array(INITIAL_STATE);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(data: Uint8Array): this {
+    for (let i = 0; i < data.length; i++) {
+      this.block[this.blockLength++] = data[i];
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    this.totalLength += data.length;
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+
+    // Padding: 0x80, zeros, 64-bit big-endian length
+    this.block[this.blockLength++] = 0x80;
+    if (this.blockLength > 56) {
+      this.block.fill(0, this.blockLength);
+      this.compress();
+      this.blockLength = 0;
+    }
+    this.block.fill(0, this.blockLength);
+    const high = Math.floor(bitLength / 0x100000000);
+    const low = bitLength >>> 0;
+    this.block[56] = high >>> 24;
+    this.block[57] = high >>> 16;
+    this.block[58] = high >>> 8;
+    this.block[59] = high;
+    this.block[60] = low >>> 24;
+    this.block[61] = low >>> 16;
+    this.block[62] = low >>> 8;
+    this.block[63] = low;
+    this.compress();
+
+    const out = new Uint8Array(32);
+    for (let i = 0; i < 8; i++) {
+      out[i * 4] = this.state[i] >>> 24;
+      out[i * 4 + 1] = this.state[i] >>> 16;
+      out[i * 4 + 2] = this.state[i] >>> 8;
+      out[i * 4 + 3] = this.state[i];
+    }
+    return out;
+  }
+
+  clone(): Sha256 {
+    const copy = new Sha256();
+    copy.state.set(this.state);
+    copy.block.set(this.block);
+    copy.blockLength = this.blockLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  private compress(): void {
+    const w = this.words;
+    const b = this.block;
+    for (let i = 0; i < 16; i++) {
+      w[i] = (b[i * 4] << 24) | (b[i * 4 + 1] << 16) | (b[i * 4 + 2] << 8) | b[i * 4 + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, bb, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & bb) ^ (a & c) ^ (bb & c);
+      const t2 = (S0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = bb;
+      bb = a;
+      a = (t1 + t2) | 0;
+    }
+
+    const s = this.state;
+    s[0] += a;
+    s[1] += bb;
+    s[2] += c;
+    s[3] += d;
+    s[4] += e;
+    s[5] += f;
+    s[6] += g;
+    s[7] += h;
+  }
+}
+
+/**
+ * SHA-256 digest of bytes
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+  return new Sha256().update(data).digest();
+}
+
+// ============================================================================
+// HMAC / PBKDF2
+// ============================================================================
+
+/**
+ * Prepare keyed inner/outer hash states for HMAC-SHA256
+ */
+function hmacStates(key: Uint8Array): { inner: Sha256; outer: Sha256 } {
+  const blockKey = new Uint8Array(64);
+  blockKey.set(key.length > 64 ? sha256(key) : key);
+
+  const innerPad = new Uint8Array(64);
+  const outerPad = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    innerPad[i] = blockKey[i] ^ 0x36;
+    outerPad[i] = blockKey[i] ^ 0x5c;
+  }
+
+  return {
+    inner: new Sha256().update(innerPad),
+    outer: new Sha256().update(outerPad),
+  };
+}
+
+/**
+ * HMAC-SHA256 of a message
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const { inner, outer } = hmacStates(key);
+  return outer.update(inner.update(message).digest()).digest();
+}
+
+export const PBKDF2_CHUNK_ITERATIONS = 1000; // Pure-JS iterations between yields
+
+/**
+ * Let the event loop run (renders, touches) before continuing
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * PBKDF2 with HMAC-SHA256 (RFC 8018)
+ * Runs natively through crypto.subtle when the runtime has it.
+ */
+export async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number
+): Promise<Uint8Array> {
+  const subtle = webCryptoGlobal.crypto?.subtle;
+  if (subtle && typeof subtle.deriveBits === 'function') {
+    const key = await subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+    const bits = await subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      key,
+      keyLength * 8
+    );
+    return new Uint8Array(bits);
+  }
+
+  const { inner, outer } = hmacStates(password);
+  const prf = (message: Uint8Array): Uint8Array =>
+    outer.clone().update(inner.clone().update(message).digest()).digest();
+
+  const output = new Uint8Array(keyLength);
+  const blockCount = Math.ceil(keyLength / 32);
+
+  for (let blockIndex = 1; blockIndex <= blockCount; blockIndex++) {
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    saltBlock[salt.length] = blockIndex >>> 24;
+    saltBlock[salt.length + 1] = blockIndex >>> 16;
+    saltBlock[salt.length + 2] = blockIndex >>> 8;
+    saltBlock[salt.length + 3] = blockIndex;
+
+    let u = prf(saltBlock);
+    const t = new Uint8Array(u);
+    for (let i = 1; i < iterations; i++) {
+      if (i % PBKDF2_CHUNK_ITERATIONS === 0) {
+        await yieldToEventLoop();
+      }
+      u = prf(u);
+      for (let j = 0; j < 32; j++) {
+        t[j] ^= u[j];
+      }
+    }
+
+    output.set(t.subarray(0, Math.min(32, keyLength - (blockIndex - 1) * 32)), (blockIndex - 1) * 32);
+  }
+
+  return output;
+}
+
+// ============================================================================
+// COMPARISON / RANDOMNESS
+// ============================================================================
+
+/**
+ * Compare two byte arrays in constant time (for equal lengths)
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Generate a random (version 4) UUID
+ */
+export function randomUuid(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+/**
+ * Generate cryptographically secure random bytes
+ * Uses crypto.getRandomValues when the runtime provides it, otherwise the
+ * native generator from expo-crypto. Throws rather than fall back to an
+ * insecure source.
+ */
+export function randomBytes(length: number): Uint8Array {
+  const getRandomValues = webCryptoGlobal.crypto?.getRandomValues;
+  if (typeof getRandomValues === 'function') {
+    const bytes = new Uint8Array(length);
+    getRandomValues.call(webCryptoGlobal.crypto, bytes);
+    return bytes;
+  }
+
+  try {
+    return ExpoCrypto.getRandomBytes(length);
+  } catch {
+    throw new Error('No secure random number generator is available');
+  }
+}
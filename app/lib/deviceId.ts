@@ -2,7 +2,7 @@
  * Social Arena - Device ID Utility
  * 
  * Manages a persistent device ID stored in AsyncStorage.
- * Used as userId before authentication is implemented.
+ * Anonymous user ID until the device signs in (see core/identity.ts).
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
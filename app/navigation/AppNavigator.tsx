@@ -8,7 +8,7 @@ import React, { useEffect, useRef } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import * as Linking from 'expo-linking';
-import { getCurrentUser } from '../core';
+import { getCurrentUser, parseInviteLink } from '../core';
 
 // Screens
 import AuthScreen from '../screens/AuthScreen';
@@ -26,7 +26,7 @@ export type RootStackParamList = {
   Lobby: { arenaId: string };
   ActiveArena: { arenaId: string };
   Results: { arenaId: string };
-  JoinArena: { roomCode?: string };
+  JoinArena: { roomCode?: string; inviteToken?: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -62,11 +62,16 @@ export default function AppNavigator() {
     // Handle deep links when app is already open
     const handleDeepLink = (event: { url: string }) => {
       const { url } = event;
+      const inviteToken = parseInviteLink(url);
       if (url.startsWith('socialarena://join/')) {
         const roomCode = url.replace('socialarena://join/', '').toUpperCase();
         if (navigationRef.current && isAuthenticated) {
           navigationRef.current.navigate('JoinArena', { roomCode });
         }
+      } else if (inviteToken) {
+        if (navigationRef.current && isAuthenticated) {
+          navigationRef.current.navigate('JoinArena', { inviteToken });
+        }
       }
     };
 
@@ -82,6 +87,13 @@ export default function AppNavigator() {
             navigationRef.current?.navigate('JoinArena', { roomCode });
           }, 100);
         }
+      } else if (url && parseInviteLink(url)) {
+        const inviteToken = parseInviteLink(url)!;
+        if (navigationRef.current && isAuthenticated) {
+          setTimeout(() => {
+            navigationRef.current?.navigate('JoinArena', { inviteToken });
+          }, 100);
+        }
       }
     });
 
@@ -24,7 +24,6 @@ import { RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
 import {
   getArena,
-  getArenaParticipants,
   endArena,
   leaveArena,
   getCurrentUser,
@@ -34,8 +33,11 @@ import {
   stopProximityTracking,
   getHunterDistance,
   getClosestHunterDistance,
-  WARNING_DISTANCE_METERS,
-  CAPTURE_DISTANCE_METERS,
+  getSpecterProximityHint,
+  getVisibleParticipants,
+  getArenaSettings,
+  subscribeToArena,
+  calculateTimeRemaining,
 } from '../core';
 import { Arena, ArenaParticipant } from '../core/types';
 
@@ -54,6 +56,8 @@ const { width, height } = Dimensions.get('window');
 
 // Location update interval (5 seconds)
 const LOCATION_UPDATE_INTERVAL = 5000;
+// GPS watch interval (1 second) - capture holds are timed by fixes, so keep them coming
+const LOCATION_WATCH_INTERVAL = 1000;
 // Proximity feedback update interval (1 second)
 const PROXIMITY_FEEDBACK_INTERVAL = 1000;
 // Debug mode toggle
@@ -140,11 +144,12 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
 
       // Update location in store
       try {
-        updateParticipantLocation(
+        await updateParticipantLocation(
           arenaId,
           currentUser.id,
           location.coords.latitude,
-          location.coords.longitude
+          location.coords.longitude,
+          location.coords.accuracy ?? undefined
         );
         // Refresh participants to show updated location
         loadArenaData();
@@ -156,23 +161,22 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
       locationSubscriptionRef.current = await Location.watchPositionAsync(
         {
           accuracy: Location.Accuracy.High,
-          timeInterval: LOCATION_UPDATE_INTERVAL,
-          distanceInterval: 5, // Update every 5 meters
+          timeInterval: LOCATION_WATCH_INTERVAL,
+          distanceInterval: 0, // Keep reporting while standing still
         },
         (location) => {
           setUserLocation(location);
           
           // Update location in store
-          try {
-            updateParticipantLocation(
-              arenaId,
-              currentUser.id,
-              location.coords.latitude,
-              location.coords.longitude
-            );
-          } catch (error) {
+          updateParticipantLocation(
+            arenaId,
+            currentUser.id,
+            location.coords.latitude,
+            location.coords.longitude,
+            location.coords.accuracy ?? undefined
+          ).catch((error) => {
             console.error('Error updating location in store:', error);
-          }
+          });
         }
       );
 
@@ -204,10 +208,12 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
 
   // Update proximity feedback
   const updateProximityFeedback = () => {
-    if (!currentUser || !arena || arena.mode !== 'predators') {
+    if (!currentUser || !arena) {
       return;
     }
 
+    const { warning_distance_meters, capture_distance_meters } = getArenaSettings(arena);
+
     const currentParticipant = participants.find(
       (p) => p.user_id === currentUser.id && p.status === 'joined'
     );
@@ -216,17 +222,30 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
       return;
     }
 
-    if (currentParticipant.role === 'prey') {
+    if (currentParticipant.role === 'prey' && arena.mode === 'specter') {
+      // Prey: Specter is hidden, only a coarse hint is available
+      const hint = getSpecterProximityHint(arenaId, currentUser.id);
+      setClosestHunterDistance(null);
+      setShowWarningBanner(hint?.specter_nearby ?? false);
+
+      if (hint?.specter_nearby) {
+        const now = Date.now();
+        if (now - lastVibrationTimeRef.current > 2000) {
+          Vibration.vibrate(200);
+          lastVibrationTimeRef.current = now;
+        }
+      }
+    } else if (currentParticipant.role === 'prey' && arena.mode !== 'duel') {
       // Prey: Show closest hunter distance
-      const closestDistance = getClosestHunterDistance(arenaId);
+      const closestDistance = getClosestHunterDistance(arenaId, currentUser.id);
       setClosestHunterDistance(closestDistance);
 
       if (closestDistance !== null) {
-        // Show warning banner if hunter within 10m
-        setShowWarningBanner(closestDistance <= WARNING_DISTANCE_METERS);
+        // Show warning banner if hunter within warning distance
+        setShowWarningBanner(closestDistance <= warning_distance_meters);
 
-        // Vibration warning when hunter within 10m
-        if (closestDistance <= WARNING_DISTANCE_METERS) {
+        // Vibration warning when hunter within warning distance
+        if (closestDistance <= warning_distance_meters) {
           const now = Date.now();
           if (now - lastVibrationTimeRef.current > 2000) {
             // Pulse vibration every 2 seconds
@@ -235,17 +254,17 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
           }
         }
       }
-    } else if (currentParticipant.role === 'hunter') {
-      // Hunter: Show distance to prey
+    } else if (currentParticipant.role === 'hunter' || arena.mode === 'duel') {
+      // Hunter (or duelist): Show distance to prey
       const distance = getHunterDistance(arenaId, currentUser.id);
       setHunterDistance(distance);
 
       if (distance !== null) {
-        // Show "Target nearby" when within 10m
-        setShowTargetNearby(distance <= WARNING_DISTANCE_METERS);
+        // Show "Target nearby" when within warning distance
+        setShowTargetNearby(distance <= warning_distance_meters);
 
         // Show capture range indicator and haptic feedback
-        const inCaptureRange = distance <= CAPTURE_DISTANCE_METERS;
+        const inCaptureRange = distance <= capture_distance_meters;
         setShowCaptureRange(inCaptureRange);
 
         if (inCaptureRange) {
@@ -255,7 +274,7 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
             lastHapticTimeRef.current = now;
           }
-        } else if (distance <= WARNING_DISTANCE_METERS) {
+        } else if (distance <= warning_distance_meters) {
           // Light haptic feedback when within warning range
           const now = Date.now();
           if (now - lastHapticTimeRef.current > 1000) {
@@ -269,7 +288,7 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
 
   const loadArenaData = async () => {
     // Load arena
-    const arenaResult = getArena(arenaId);
+    const arenaResult = await getArena(arenaId);
     if (arenaResult.success) {
       setArena(arenaResult.data);
 
@@ -293,8 +312,8 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
       return;
     }
 
-    // Load participants
-    const participantsResult = getArenaParticipants(arenaId);
+    // Load participants (hidden hunters are stripped of coordinates)
+    const participantsResult = await getVisibleParticipants(arenaId, currentUser?.id ?? null);
     if (participantsResult.success) {
       setParticipants(participantsResult.data);
     }
@@ -317,15 +336,13 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
         // Start location tracking
         startLocationTracking();
 
-        // Start proximity tracking for predators mode
-        if (arena.mode === 'predators') {
-          startProximityTracking(arenaId);
+        // Start proximity tracking
+        startProximityTracking(arenaId);
 
-          // Start proximity feedback loop
-          proximityFeedbackIntervalRef.current = setInterval(() => {
-            updateProximityFeedback();
-          }, PROXIMITY_FEEDBACK_INTERVAL);
-        }
+        // Start proximity feedback loop
+        proximityFeedbackIntervalRef.current = setInterval(() => {
+          updateProximityFeedback();
+        }, PROXIMITY_FEEDBACK_INTERVAL);
       }
     }
 
@@ -344,6 +361,20 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
     return unsubscribe;
   }, [navigation]);
 
+  // React immediately to captures, departures and the end of the game
+  useEffect(() => {
+    return subscribeToArena(arenaId, (event) => {
+      if (
+        event.type === 'prey_captured' ||
+        event.type === 'prey_infected' ||
+        event.type === 'participant_left' ||
+        event.type === 'arena_ended'
+      ) {
+        loadArenaData();
+      }
+    });
+  }, [arenaId]);
+
   // Stop tracking when leaving screen
   useEffect(() => {
     return () => {
@@ -386,7 +417,7 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
           onPress: async () => {
             stopLocationTracking();
             stopProximityTracking(arenaId);
-            const result = leaveArena(arenaId);
+            const result = await leaveArena(arenaId);
             if (result.success) {
               navigation.goBack();
             } else {
@@ -405,6 +436,10 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
 
   const isHost = arena?.host_id === currentUser?.id;
   const currentParticipant = getCurrentParticipant();
+  const arenaSettings = arena ? getArenaSettings(arena) : null;
+  const isHunting =
+    currentParticipant?.role === 'hunter' ||
+    (!!currentParticipant && arena?.mode === 'duel'); // Duelists hunt each other
 
   // Get participants with valid locations
   const participantsWithLocations = participants.filter(
@@ -479,13 +514,7 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
   }
 
   // Calculate time remaining
-  const timeRemaining = arena.started_at
-    ? Math.max(
-        0,
-        arena.duration_minutes * 60 -
-          Math.floor((Date.now() - arena.started_at.getTime()) / 1000)
-      )
-    : 0;
+  const timeRemaining = calculateTimeRemaining(arena) ?? 0;
   const minutes = Math.floor(timeRemaining / 60);
   const seconds = timeRemaining % 60;
 
@@ -559,13 +588,15 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
           {currentParticipant?.role === 'prey' && showWarningBanner && (
             <View style={styles.warningBanner}>
               <Text style={styles.warningBannerText}>
-                ⚠️ Hunter nearby! ({closestHunterDistance?.toFixed(1)}m)
+                {arena?.mode === 'specter'
+                  ? `👻 A specter is within ${arenaSettings?.warning_distance_meters}m`
+                  : `⚠️ Hunter nearby! (${closestHunterDistance?.toFixed(1)}m)`}
               </Text>
             </View>
           )}
 
           {/* Hunter: Target nearby */}
-          {currentParticipant?.role === 'hunter' && showTargetNearby && !showCaptureRange && (
+          {isHunting && showTargetNearby && !showCaptureRange && (
             <View style={styles.targetBanner}>
               <Text style={styles.targetBannerText}>
                 🎯 Target nearby ({hunterDistance?.toFixed(1)}m)
@@ -574,7 +605,7 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
           )}
 
           {/* Hunter: In capture range */}
-          {currentParticipant?.role === 'hunter' && showCaptureRange && (
+          {isHunting && showCaptureRange && (
             <View style={styles.captureBanner}>
               <Text style={styles.captureBannerText}>
                 🔥 CAPTURE RANGE! ({hunterDistance?.toFixed(1)}m)
@@ -608,16 +639,16 @@ export default function ActiveArenaScreen({ navigation, route }: Props) {
                 Closest Hunter: {closestHunterDistance.toFixed(2)}m
               </Text>
             )}
-            {currentParticipant.role === 'hunter' && hunterDistance !== null && (
+            {isHunting && hunterDistance !== null && (
               <Text style={styles.debugText}>
                 Distance to Prey: {hunterDistance.toFixed(2)}m
               </Text>
             )}
             <Text style={styles.debugText}>
-              Capture Distance: {CAPTURE_DISTANCE_METERS}m
+              Capture Distance: {arenaSettings?.capture_distance_meters}m
             </Text>
             <Text style={styles.debugText}>
-              Warning Distance: {WARNING_DISTANCE_METERS}m
+              Warning Distance: {arenaSettings?.warning_distance_meters}m
             </Text>
           </View>
         )}
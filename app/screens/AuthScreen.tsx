@@ -19,7 +19,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { signup, login, getCurrentUser } from '../core';
+import { signup, login, getCurrentUser, restoreSession, resumeArenaClocks } from '../core';
 
 type AuthScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Auth'>;
 
@@ -51,12 +51,16 @@ export default function AuthScreen({ navigation }: Props) {
     try {
       let result;
       if (isSignup) {
-        result = signup(email, password, username);
+        result = await signup(email, password, username);
       } else {
-        result = login(email, password);
+        result = await login(email, password);
       }
 
       if (result.success) {
+        if (!isSignup) {
+          // Pick up the game clock of an arena this account was playing in
+          resumeArenaClocks();
+        }
         // Navigate to Rooms
         navigation.replace('Rooms');
       } else {
@@ -69,11 +73,20 @@ export default function AuthScreen({ navigation }: Props) {
     }
   };
 
-  // Check if already authenticated
+  // Check if already authenticated, restoring a saved session
   React.useEffect(() => {
     if (getCurrentUser()) {
       navigation.replace('Rooms');
+      return;
     }
+    restoreSession().then((result) => {
+      if (result.success && result.data) {
+        // Arenas are keyed on the account, so resume its clock only once
+        // the session is back (never at module load, on the device ID)
+        resumeArenaClocks();
+        navigation.replace('Rooms');
+      }
+    });
   }, []);
 
   return (
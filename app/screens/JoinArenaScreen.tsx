@@ -1,7 +1,8 @@
 /**
  * Social Arena - Join Room Screen
  * 
- * Allows users to join a room by entering a room code.
+ * Allows users to join a room by entering a room code, or
+ * redeems an invite link opened from outside the app.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -19,7 +20,7 @@ import {
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { joinRoomByCode, getRoomByCode } from '../core';
+import { joinRoomByCode, getRoomByCode, redeemInvite } from '../core';
 
 type JoinArenaScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'JoinArena'>;
 type JoinArenaScreenRouteProp = RouteProp<RootStackParamList, 'JoinArena'>;
@@ -30,7 +31,7 @@ interface Props {
 }
 
 export default function JoinArenaScreen({ navigation, route }: Props) {
-  const { roomCode: initialCode } = route.params || {};
+  const { roomCode: initialCode, inviteToken } = route.params || {};
   const [roomCode, setRoomCode] = useState(initialCode || '');
   const [joining, setJoining] = useState(false);
 
@@ -41,6 +42,24 @@ export default function JoinArenaScreen({ navigation, route }: Props) {
     }
   }, [initialCode]);
 
+  useEffect(() => {
+    // Invite links join straight away
+    if (!inviteToken) return;
+
+    const redeem = async () => {
+      setJoining(true);
+      const redeemResult = await redeemInvite(inviteToken);
+      setJoining(false);
+
+      if (redeemResult.success) {
+        navigation.replace('Room', { roomId: redeemResult.data.id });
+      } else {
+        Alert.alert('Error', `${redeemResult.error.message}. Ask for a new invite or enter the room code.`);
+      }
+    };
+    redeem();
+  }, [inviteToken]);
+
   const handleJoin = async () => {
     const normalizedCode = roomCode.trim().toUpperCase();
     
@@ -32,11 +32,12 @@ import {
   assignRole,
   startArena,
   getCurrentUser,
+  getCurrentUserId,
+  getPublicProfile,
   cancelArena,
-  store,
+  subscribeToArena,
 } from '../core';
-import { Arena, ArenaParticipant, ParticipantRole } from '../core/types';
-import { getDeviceId } from '../lib/deviceId';
+import { Arena, ArenaParticipant, ParticipantRole, PublicProfile } from '../core/types';
 
 type LobbyScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Lobby'>;
 type LobbyScreenRouteProp = RouteProp<RootStackParamList, 'Lobby'>;
@@ -55,7 +56,8 @@ export default function LobbyScreen({ navigation, route }: Props) {
   const [starting, setStarting] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [deletingLobby, setDeletingLobby] = useState(false);
-  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<Record<string, PublicProfile>>({});
   const [userLocation, setUserLocation] = useState<Location.LocationObject | null>(null);
   const [mapRegion, setMapRegion] = useState<Region>({
     latitude: 37.78825,
@@ -69,11 +71,26 @@ export default function LobbyScreen({ navigation, route }: Props) {
 
   const currentUser = getCurrentUser();
 
-  // Get device ID on mount
+  // Get current user ID on mount
   useEffect(() => {
-    getDeviceId().then(id => setDeviceId(id));
+    getCurrentUserId().then(id => setCurrentUserId(id));
   }, []);
 
+  // Load public profiles for display names
+  useEffect(() => {
+    const missing = participants.map((p) => p.user_id).filter((id) => !profiles[id]);
+    if (missing.length === 0) return;
+    Promise.all(missing.map((id) => getPublicProfile(id))).then((results) => {
+      const loaded: Record<string, PublicProfile> = {};
+      for (const result of results) {
+        if (result.success) {
+          loaded[result.data.id] = result.data;
+        }
+      }
+      setProfiles((prev) => ({ ...prev, ...loaded }));
+    });
+  }, [participants]);
+
   // Request location and update map
   useEffect(() => {
     const requestLocation = async () => {
@@ -165,7 +182,7 @@ export default function LobbyScreen({ navigation, route }: Props) {
     setLoading(true);
 
     // Load arena
-    const arenaResult = getArena(arenaId);
+    const arenaResult = await getArena(arenaId);
     if (arenaResult.success) {
       setArena(arenaResult.data);
 
@@ -184,7 +201,7 @@ export default function LobbyScreen({ navigation, route }: Props) {
     }
 
     // Load participants
-    const participantsResult = getArenaParticipants(arenaId);
+    const participantsResult = await getArenaParticipants(arenaId);
     if (participantsResult.success) {
       setParticipants(participantsResult.data);
     }
@@ -204,11 +221,19 @@ export default function LobbyScreen({ navigation, route }: Props) {
     return unsubscribe;
   }, [navigation]);
 
+  // Refresh when players join, leave, change roles or the arena starts
+  useEffect(() => {
+    return subscribeToArena(arenaId, (event) => {
+      if (event.type !== 'location_updated') {
+        loadArenaData();
+      }
+    });
+  }, [arenaId]);
+
   // Leave arena when backing out of lobby (but not if user is host)
   useEffect(() => {
     const unsubscribe = navigation.addListener('beforeRemove', async () => {
       // Check if user is a participant before leaving
-      const currentUserId = deviceId || currentUser?.id;
       if (currentUserId && arena) {
         // Don't remove host - they can back out and still remain host
         const isHost = arena.host_id === currentUserId;
@@ -218,7 +243,7 @@ export default function LobbyScreen({ navigation, route }: Props) {
         
         const participant = participants.find(
           (p) => 
-            (p.user_id === deviceId || p.user_id === currentUser?.id) && 
+            p.user_id === currentUserId && 
             p.status === 'joined'
         );
         if (participant) {
@@ -228,13 +253,13 @@ export default function LobbyScreen({ navigation, route }: Props) {
       }
     });
     return unsubscribe;
-  }, [navigation, deviceId, currentUser, arena, participants, arenaId]);
+  }, [navigation, currentUserId, currentUser, arena, participants, arenaId]);
 
   const getCurrentParticipant = () => {
-    if (!deviceId && !currentUser) return null;
+    if (!currentUserId) return null;
     return participants.find(
       (p) => 
-        (p.user_id === deviceId || p.user_id === currentUser?.id) && 
+        p.user_id === currentUserId && 
         p.status === 'joined'
     );
   };
@@ -243,7 +268,7 @@ export default function LobbyScreen({ navigation, route }: Props) {
   const joinedParticipants = participants.filter((p) => p.status === 'joined');
   const prey = joinedParticipants.filter((p) => p.role === 'prey');
   const hunters = joinedParticipants.filter((p) => p.role === 'hunter');
-  const isHost = arena?.host_id === deviceId || arena?.host_id === currentUser?.id;
+  const isHost = arena?.host_id === currentUserId;
 
   // Get participants with location data for map markers
   const participantsWithLocations = joinedParticipants.filter(
@@ -405,7 +430,7 @@ export default function LobbyScreen({ navigation, route }: Props) {
             onPress={handleMapPress}
           >
             {participantsWithLocations.map((participant) => {
-              const isCurrentUser = participant.user_id === deviceId || participant.user_id === currentUser?.id;
+              const isCurrentUser = participant.user_id === currentUserId;
               
               // Skip marker for current user - we'll add a tappable marker separately
               if (isCurrentUser) {
@@ -414,9 +439,9 @@ export default function LobbyScreen({ navigation, route }: Props) {
               
               // Get display name for participant
               let displayName = `User ${participant.user_id.slice(-6)}`;
-              const user = store.getUserById(participant.user_id);
-              if (user) {
-                displayName = user.username || user.display_name || displayName;
+              const profile = profiles[participant.user_id];
+              if (profile) {
+                displayName = profile.username || profile.display_name || displayName;
               }
               
               const markerColor = getMarkerColor(participant.role, false);
@@ -473,19 +498,17 @@ export default function LobbyScreen({ navigation, route }: Props) {
           data={joinedParticipants}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => {
-            const isCurrentUser = item.user_id === deviceId || item.user_id === currentUser?.id;
+            const isCurrentUser = item.user_id === currentUserId;
             
             // For current user, always show their username from auth
             let displayName = `User ${item.user_id.slice(-6)}`;
             if (isCurrentUser && currentUser) {
               displayName = currentUser.username || currentUser.display_name || displayName;
             } else {
-              // For other participants, try to get from store
-              // Note: Since participants use deviceId as user_id, we can't easily match to auth users
-              // This is a limitation of the temporary deviceId-based auth system
-              const user = store.getUserById(item.user_id);
-              if (user) {
-                displayName = user.username || user.display_name || displayName;
+              // For other participants, use their public profile
+              const profile = profiles[item.user_id];
+              if (profile) {
+                displayName = profile.username || profile.display_name || displayName;
               }
             }
             
@@ -21,6 +21,7 @@ import {
   getArenaParticipants,
   createArena,
   getRoom,
+  getDuelWinner,
 } from '../core';
 import { Arena, ArenaParticipant } from '../core/types';
 
@@ -43,13 +44,13 @@ export default function ResultsScreen({ navigation, route }: Props) {
     setLoading(true);
 
     // Load arena
-    const arenaResult = getArena(arenaId);
+    const arenaResult = await getArena(arenaId);
     if (arenaResult.success) {
       setArena(arenaResult.data);
     }
 
     // Load participants
-    const participantsResult = getArenaParticipants(arenaId);
+    const participantsResult = await getArenaParticipants(arenaId);
     if (participantsResult.success) {
       setParticipants(participantsResult.data);
     }
@@ -101,8 +102,13 @@ export default function ResultsScreen({ navigation, route }: Props) {
     );
   }
 
+  const duelWinnerId = arena.mode === 'duel' ? getDuelWinner(participants) : null;
   const winnerText =
-    arena.winner_team === 'hunters'
+    arena.mode === 'duel'
+      ? duelWinnerId
+        ? `User ${duelWinnerId.slice(-6)} Wins the Duel!`
+        : 'Duel Drawn'
+      : arena.winner_team === 'hunters'
       ? 'Hunters Win!'
       : arena.winner_team === 'prey'
       ? 'Prey Escaped!'
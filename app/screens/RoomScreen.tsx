@@ -32,14 +32,17 @@ import {
   createArena,
   getArena,
   getArenaParticipants,
-  store,
+  getStateStore,
   getCurrentUser,
+  getCurrentUserId,
+  getPublicProfile,
   updateRoomName,
   deleteRoom,
   rotateRoomCode,
+  roleCan,
+  leaveRoom,
 } from '../core';
-import { Room, Arena, RoomMember } from '../core/types';
-import { getDeviceId } from '../lib/deviceId';
+import { Room, Arena, RoomMember, PublicProfile } from '../core/types';
 
 type RoomScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Room'>;
 type RoomScreenRouteProp = RouteProp<RootStackParamList, 'Room'>;
@@ -66,17 +69,35 @@ export default function RoomScreen({ navigation, route }: Props) {
   const [roomName, setRoomName] = useState('');
   const [savingName, setSavingName] = useState(false);
   const [deletingRoom, setDeletingRoom] = useState(false);
+  const [leavingRoom, setLeavingRoom] = useState(false);
   const [rotatingCode, setRotatingCode] = useState(false);
-  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<Record<string, PublicProfile>>({});
   const [showGameModeModal, setShowGameModeModal] = useState(false);
 
-  // Get device ID on mount
+  // Get current user ID on mount
   useEffect(() => {
-    getDeviceId().then(id => setDeviceId(id));
+    getCurrentUserId().then(id => setCurrentUserId(id));
   }, []);
 
+  // Load public profiles for display names
+  useEffect(() => {
+    const missing = members.map((p) => p.user_id).filter((id) => !profiles[id]);
+    if (missing.length === 0) return;
+    Promise.all(missing.map((id) => getPublicProfile(id))).then((results) => {
+      const loaded: Record<string, PublicProfile> = {};
+      for (const result of results) {
+        if (result.success) {
+          loaded[result.data.id] = result.data;
+        }
+      }
+      setProfiles((prev) => ({ ...prev, ...loaded }));
+    });
+  }, [members]);
+
   const currentUser = getCurrentUser();
-  const isOwner = room?.owner_id === deviceId || room?.owner_id === currentUser?.id;
+  const isOwner = room?.owner_id === currentUserId;
+  const myRole = isOwner ? 'owner' : members.find((m) => m.user_id === currentUserId)?.role;
 
   const loadRoomData = async () => {
     try {
@@ -101,11 +122,10 @@ export default function RoomScreen({ navigation, route }: Props) {
       }
 
       // Load active arena
-      const activeArenaResult = getActiveArenaInRoom(roomId);
+      const activeArenaResult = await getActiveArenaInRoom(roomId);
       if (activeArenaResult.success && activeArenaResult.data) {
         setActiveArena(activeArenaResult.data);
         // Check if current user is hosting the active arena
-        const currentUserId = deviceId || currentUser?.id;
         if (currentUserId) {
           setIsHostingActiveArena(
             activeArenaResult.data.host_id === currentUserId
@@ -119,13 +139,12 @@ export default function RoomScreen({ navigation, route }: Props) {
       }
 
       // Load pending (lobby) arena
-      const pendingArenaResult = getPendingArenaInRoom(roomId);
+      const pendingArenaResult = await getPendingArenaInRoom(roomId);
       if (pendingArenaResult.success && pendingArenaResult.data) {
         setPendingArena(pendingArenaResult.data);
         // Check if current user is a participant in the pending arena
-        const currentUserId = deviceId || currentUser?.id;
         if (currentUserId) {
-          const participant = store.getArenaParticipant(
+          const participant = await getStateStore().getArenaParticipant(
             pendingArenaResult.data.id,
             currentUserId
           );
@@ -142,7 +161,7 @@ export default function RoomScreen({ navigation, route }: Props) {
         }
         
         // Load participant count for pending arena
-        const participantsResult = getArenaParticipants(pendingArenaResult.data.id);
+        const participantsResult = await getArenaParticipants(pendingArenaResult.data.id);
         if (participantsResult.success) {
           const joinedCount = participantsResult.data.filter(
             p => p.status === 'joined'
@@ -323,6 +342,35 @@ export default function RoomScreen({ navigation, route }: Props) {
     );
   };
 
+  const handleLeaveRoom = () => {
+    if (!room) return;
+
+    Alert.alert(
+      'Leave Room',
+      isOwner
+        ? `Leave "${room.name}"? Ownership passes to an admin or the longest-standing member.`
+        : `Leave "${room.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            setLeavingRoom(true);
+            const result = await leaveRoom(room.id);
+            setLeavingRoom(false);
+
+            if (result.success) {
+              navigation.goBack();
+            } else {
+              Alert.alert('Error', result.error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -454,7 +502,7 @@ export default function RoomScreen({ navigation, route }: Props) {
             data={members}
             keyExtractor={(item) => item.id}
             renderItem={({ item }) => {
-              const isCurrentUser = item.user_id === deviceId || item.user_id === currentUser?.id;
+              const isCurrentUser = item.user_id === currentUserId;
               const isOwner = item.user_id === room.owner_id;
               
               // For current user, show their username from auth
@@ -462,10 +510,10 @@ export default function RoomScreen({ navigation, route }: Props) {
               if (isCurrentUser && currentUser) {
                 displayName = currentUser.username || currentUser.display_name || displayName;
               } else {
-                // Try to get from store (for in-memory users)
-                const user = store.getUserById(item.user_id);
-                if (user) {
-                  displayName = user.username || user.display_name || displayName;
+                // Otherwise use their public profile
+                const profile = profiles[item.user_id];
+                if (profile) {
+                  displayName = profile.username || profile.display_name || displayName;
                 }
               }
               
@@ -516,7 +564,7 @@ export default function RoomScreen({ navigation, route }: Props) {
                 </View>
 
                 {/* Room Name Section */}
-                {isOwner && (
+                {roleCan(myRole, 'rename_room') && (
                   <View style={styles.settingsSection}>
                     <Text style={styles.settingsLabel}>Room Name</Text>
                     {editingName ? (
@@ -585,7 +633,7 @@ export default function RoomScreen({ navigation, route }: Props) {
                         <Text style={styles.settingsButtonText}>Share Link</Text>
                       </TouchableOpacity>
                     </View>
-                    {isOwner && (
+                    {roleCan(myRole, 'rotate_code') && (
                       <TouchableOpacity
                         style={[styles.rotateButton, rotatingCode && styles.buttonDisabled]}
                         onPress={handleRotateCode}
@@ -602,7 +650,7 @@ export default function RoomScreen({ navigation, route }: Props) {
                 )}
 
                 {/* Delete Room Section */}
-                {isOwner && (
+                {roleCan(myRole, 'delete_room') && (
                   <View style={styles.settingsSection}>
                     <TouchableOpacity
                       style={[styles.deleteButton, deletingRoom && styles.buttonDisabled]}
@@ -617,6 +665,21 @@ export default function RoomScreen({ navigation, route }: Props) {
                     </TouchableOpacity>
                   </View>
                 )}
+
+                {/* Leave Room Section */}
+                <View style={styles.settingsSection}>
+                  <TouchableOpacity
+                    style={[styles.deleteButton, leavingRoom && styles.buttonDisabled]}
+                    onPress={handleLeaveRoom}
+                    disabled={leavingRoom}
+                  >
+                    {leavingRoom ? (
+                      <ActivityIndicator color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.deleteButtonText}>Leave Room</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
               </View>
             </TouchableWithoutFeedback>
           </View>
@@ -99,8 +99,8 @@ export default function RoomsScreen({ navigation }: Props) {
       {
         text: 'Logout',
         style: 'destructive',
-        onPress: () => {
-          logout();
+        onPress: async () => {
+          await logout();
           navigation.replace('Auth');
         },
       },